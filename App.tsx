@@ -1,5 +1,5 @@
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Sidebar } from './components/Sidebar';
 import { ImageGenerator } from './components/ImageGenerator';
 import { VideoGenerator } from './components/VideoGenerator';
@@ -7,12 +7,25 @@ import { Storyboard } from './components/Storyboard';
 import { Editor } from './components/Editor';
 import { Analyzer } from './components/Analyzer';
 import { ModelTrainer } from './components/ModelTrainer';
+import { MediaLibrary } from './components/MediaLibrary';
 import { ApiKeyModal } from './components/ApiKeyModal';
+import { JobsTray } from './components/JobsTray';
+import { Settings } from './components/Settings';
+import { loadSettings } from './services/settingsService';
 import { AppMode } from './types';
 
 function App() {
   const [currentMode, setCurrentMode] = useState<AppMode>(AppMode.GENERATE_IMAGE);
   const [isKeyVerified, setIsKeyVerified] = useState(false);
+  const [settingsLoaded, setSettingsLoaded] = useState(false);
+
+  // Tools read their defaults from settings when they mount, so hold off rendering them until loaded
+  useEffect(() => {
+    // Fall back to the defaults rather than blocking the app if storage is unavailable
+    loadSettings()
+      .catch(error => console.error("Failed to load settings:", error))
+      .finally(() => setSettingsLoaded(true));
+  }, []);
 
   const renderContent = () => {
     switch (currentMode) {
@@ -29,6 +42,10 @@ function App() {
       case AppMode.TRAIN_MODEL:
         // Pass setCurrentMode to allow the Trainer to navigate to generators
         return <ModelTrainer onModeChange={setCurrentMode} />;
+      case AppMode.LIBRARY:
+        return <MediaLibrary />;
+      case AppMode.SETTINGS:
+        return <Settings />;
       default:
         return <ImageGenerator />;
     }
@@ -38,7 +55,7 @@ function App() {
     <div className="min-h-screen bg-[#0f172a] text-white font-sans selection:bg-purple-500/30">
       <ApiKeyModal onVerified={() => setIsKeyVerified(true)} />
       
-      {isKeyVerified ? (
+      {isKeyVerified && settingsLoaded ? (
         <>
           <Sidebar currentMode={currentMode} onModeChange={setCurrentMode} />
           <main className="ml-20 md:ml-64 min-h-screen transition-all duration-300">
@@ -49,6 +66,7 @@ function App() {
                {renderContent()}
              </div>
           </main>
+          <JobsTray onModeChange={setCurrentMode} />
         </>
       ) : (
         <div className="flex h-screen items-center justify-center text-gray-500">
@@ -1,5 +1,7 @@
 import React, { useState, useRef } from 'react';
-import { analyzeMedia } from '../services/geminiService';
+import { analyzeMedia, isAbortError } from '../services/geminiService';
+import { blobToDataUrl } from '../services/mediaUtils';
+import { useCallStatus, CallStatusLine } from './CallStatus';
 import { Loader2, Upload, ScanEye, MessageSquare } from 'lucide-react';
 
 export const Analyzer: React.FC = () => {
@@ -8,6 +10,7 @@ export const Analyzer: React.FC = () => {
   const [prompt, setPrompt] = useState('');
   const [analysis, setAnalysis] = useState('');
   const [loading, setLoading] = useState(false);
+  const call = useCallStatus();
   
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -28,19 +31,14 @@ export const Analyzer: React.FC = () => {
     if (!selectedFile) return;
     setLoading(true);
     try {
-      const reader = new FileReader();
-      reader.readAsDataURL(selectedFile);
-      reader.onload = async () => {
-        const result = reader.result as string;
-        const base64 = result.split(',')[1];
-        
-        const response = await analyzeMedia(base64, selectedFile.type, prompt);
-        setAnalysis(response);
-        setLoading(false);
-      };
+      const base64 = (await blobToDataUrl(selectedFile)).split(',')[1];
+      const response = await analyzeMedia(base64, selectedFile.type, prompt, call.begin('Analyzing...'));
+      setAnalysis(response);
     } catch (e) {
       console.error(e);
-      setAnalysis("Error analyzing media.");
+      if (!isAbortError(e)) setAnalysis("Error analyzing media.");
+    } finally {
+      call.end();
       setLoading(false);
     }
   };
@@ -113,9 +111,7 @@ export const Analyzer: React.FC = () => {
             <div className="flex-1 bg-gray-800 rounded-xl p-6 border border-gray-700 overflow-y-auto max-h-[400px]">
                <h3 className="text-lg font-semibold text-white mb-4">AI Analysis Results</h3>
                {loading ? (
-                 <div className="flex items-center gap-2 text-cyan-400">
-                   <Loader2 className="animate-spin" /> Analyzing...
-                 </div>
+                 <CallStatusLine status={call.status} onCancel={call.cancel} className="text-cyan-400" />
                ) : analysis ? (
                  <div className="prose prose-invert max-w-none text-gray-300 whitespace-pre-wrap">
                    {analysis}
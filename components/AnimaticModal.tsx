@@ -0,0 +1,265 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { generateVideo, isAbortError, CallOptions } from '../services/geminiService';
+import { stitchClips, getStitchedExtension, TransitionType } from '../services/videoStitcher';
+import { addToLibrary, downloadBlob } from '../services/mediaUtils';
+import { StoryboardPanel, VideoResolution } from '../types';
+import { useCallStatus, CallStatusLine } from './CallStatus';
+import { Film, Loader2, Play, RotateCcw, Download, CheckCircle2, AlertCircle, X } from 'lucide-react';
+
+type ClipStatus = 'pending' | 'animating' | 'done' | 'error';
+
+export interface PanelClip {
+  status: ClipStatus;
+  url?: string;
+  sourceImage?: string; // The panel image the clip was animated from, so edits invalidate it
+}
+
+interface AnimaticModalProps {
+  panels: StoryboardPanel[];
+  projectName: string;
+  clips: Record<string, PanelClip>; // Owned by the storyboard so finished clips outlive the modal
+  setClips: React.Dispatch<React.SetStateAction<Record<string, PanelClip>>>;
+  onClose: () => void;
+}
+
+const TRANSITIONS: { id: TransitionType; label: string }[] = [
+  { id: 'cut', label: 'Cut' },
+  { id: 'crossfade', label: 'Crossfade' },
+  { id: 'fade_black', label: 'Fade to Black' },
+];
+
+export const AnimaticModal: React.FC<AnimaticModalProps> = ({ panels, projectName, clips, setClips, onClose }) => {
+  const [isAnimating, setIsAnimating] = useState(false);
+  const [secondsPerPanel, setSecondsPerPanel] = useState(3);
+  const [transition, setTransition] = useState<TransitionType>('crossfade');
+  const [transitionSec, setTransitionSec] = useState(0.5);
+  const [stitchProgress, setStitchProgress] = useState<number | null>(null);
+  const [result, setResult] = useState<{ url: string; blob: Blob } | null>(null);
+  const call = useCallStatus();
+
+  const resultUrls = useRef<string[]>([]); // Stitched previews, released on close
+  const closed = useRef(false);
+
+  useEffect(() => () => {
+    closed.current = true;
+    resultUrls.current.forEach(url => URL.revokeObjectURL(url));
+  }, []);
+
+  const eligible = panels.filter(p => p.imageUrl);
+  const clipFor = (panel: StoryboardPanel): PanelClip => {
+    const clip = clips[panel.id];
+    return clip && clip.sourceImage === panel.imageUrl ? clip : { status: 'pending' };
+  };
+  const doneCount = eligible.filter(p => clipFor(p).status === 'done').length;
+  const allDone = eligible.length > 0 && doneCount === eligible.length;
+
+  const setClip = (id: string, clip: PanelClip) => setClips(prev => ({ ...prev, [id]: clip }));
+
+  const animatePanel = async (panel: StoryboardPanel, options: CallOptions) => {
+    const image = panel.imageUrl!;
+    const previousUrl = clips[panel.id]?.url;
+    setClip(panel.id, { status: 'animating', sourceImage: image });
+    try {
+      const url = await generateVideo(panel.description, VideoResolution.HD, '16:9', undefined, image, undefined, {
+        title: `Animatic: ${panel.description}`,
+        source: 'storyboard',
+      }, options);
+      setClip(panel.id, { status: 'done', url, sourceImage: image });
+      if (previousUrl) URL.revokeObjectURL(previousUrl);
+    } catch (e) {
+      if (isAbortError(e)) return setClip(panel.id, { status: 'pending', url: previousUrl, sourceImage: image });
+      console.error(e);
+      setClip(panel.id, { status: 'error', url: previousUrl, sourceImage: image });
+    }
+  };
+
+  // One panel at a time keeps us well inside the video quota
+  const animateAll = async () => {
+    setIsAnimating(true);
+    setResult(null);
+    const options = call.begin('Animating scenes...');
+    try {
+      for (const panel of eligible) {
+        if (closed.current || options.signal?.aborted) break; // The panel in flight still lands in the storyboard; the rest wait for next time
+        if (clipFor(panel).status !== 'done') await animatePanel(panel, options);
+      }
+    } finally {
+      call.end();
+      setIsAnimating(false);
+    }
+  };
+
+  const retryPanel = async (panel: StoryboardPanel) => {
+    setIsAnimating(true);
+    setResult(null);
+    try {
+      await animatePanel(panel, call.begin('Animating scene...'));
+    } finally {
+      call.end();
+      setIsAnimating(false);
+    }
+  };
+
+  const handleStitch = async () => {
+    setStitchProgress(0);
+    setResult(null);
+    try {
+      const blob = await stitchClips(
+        eligible.map(p => ({ url: clipFor(p).url!, durationSec: secondsPerPanel })),
+        { transition, transitionSec, onProgress: setStitchProgress }
+      );
+      const url = URL.createObjectURL(blob);
+      resultUrls.current.push(url);
+      setResult({ url, blob });
+      await addToLibrary({
+        id: Date.now().toString(),
+        type: 'video',
+        url,
+        prompt: `Animatic: ${projectName}`,
+        timestamp: Date.now(),
+      }, 'storyboard');
+    } catch (e) {
+      console.error(e);
+      alert("Failed to assemble the animatic.");
+    } finally {
+      setStitchProgress(null);
+    }
+  };
+
+  const handleDownload = () => {
+    if (!result) return;
+    downloadBlob(result.blob, `${projectName.replace(/[^a-z0-9-_]+/gi, '_') || 'animatic'}.${getStitchedExtension(result.blob)}`);
+  };
+
+  const handleClose = () => {
+    if ((isAnimating || stitchProgress !== null) && !window.confirm("Animatic work is still in progress. Close anyway?")) return;
+    onClose();
+  };
+
+  const busy = isAnimating || stitchProgress !== null;
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-gray-900 border border-gray-700 rounded-2xl w-full max-w-4xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-6 border-b border-gray-800 flex justify-between items-center bg-gradient-to-r from-orange-900/20 to-pink-900/20">
+          <h3 className="text-xl font-bold text-white flex items-center gap-2">
+            <Film className="text-orange-400" /> Create Animatic
+          </h3>
+          <button onClick={handleClose} className="text-gray-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          <p className="text-sm text-gray-400">
+            Each scene image is animated using its description as the motion prompt, then the clips are joined into one video.
+            {eligible.length < panels.length && (
+              <span className="text-orange-300"> {panels.length - eligible.length} scene(s) without an image will be skipped.</span>
+            )}
+          </p>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {panels.map((panel, index) => {
+              if (!panel.imageUrl) return null;
+              const clip = clipFor(panel);
+              return (
+                <div key={panel.id} className="bg-gray-800 rounded-xl overflow-hidden border border-gray-700">
+                  <div className="aspect-video bg-black relative">
+                    {clip.status === 'done' ? (
+                      <video src={clip.url} className="w-full h-full object-cover" muted loop autoPlay playsInline />
+                    ) : (
+                      <img src={panel.imageUrl} className={`w-full h-full object-cover ${clip.status === 'animating' ? 'opacity-40' : ''}`} />
+                    )}
+                    <span className="absolute top-1 left-1 bg-black/60 text-white text-[10px] px-1.5 py-0.5 rounded font-mono">SCENE {index + 1}</span>
+                    {clip.status === 'animating' && (
+                      <div className="absolute inset-0 flex items-center justify-center">
+                        <Loader2 className="w-6 h-6 text-orange-400 animate-spin" />
+                      </div>
+                    )}
+                  </div>
+                  <div className="px-2 py-1.5 flex items-center justify-between text-xs">
+                    {clip.status === 'done' && <span className="text-green-400 flex items-center gap-1"><CheckCircle2 className="w-3 h-3" /> Ready</span>}
+                    {clip.status === 'animating' && <span className="text-orange-300">Animating...</span>}
+                    {clip.status === 'pending' && <span className="text-gray-500">Waiting</span>}
+                    {clip.status === 'error' && <span className="text-red-400 flex items-center gap-1"><AlertCircle className="w-3 h-3" /> Failed</span>}
+                    {(clip.status === 'error' || clip.status === 'done') && (
+                      <button onClick={() => retryPanel(panel)} disabled={busy} className="text-gray-400 hover:text-white disabled:opacity-30" title="Animate again">
+                        <RotateCcw className="w-3 h-3" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 bg-gray-800/50 p-4 rounded-xl border border-gray-700">
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Seconds per scene: <b className="text-white">{secondsPerPanel}s</b></label>
+              <input type="range" min={1} max={8} step={0.5} value={secondsPerPanel} onChange={(e) => setSecondsPerPanel(Number(e.target.value))} className="w-full accent-orange-500" />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Transition</label>
+              <select
+                value={transition}
+                onChange={(e) => setTransition(e.target.value as TransitionType)}
+                className="w-full bg-gray-900 border border-gray-700 rounded-lg px-2 py-1.5 text-sm text-white outline-none"
+              >
+                {TRANSITIONS.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+              </select>
+            </div>
+            <div className={transition === 'cut' ? 'opacity-40' : ''}>
+              <label className="block text-xs text-gray-400 mb-1">Transition length: <b className="text-white">{transitionSec}s</b></label>
+              <input type="range" min={0.25} max={2} step={0.25} value={transitionSec} disabled={transition === 'cut'} onChange={(e) => setTransitionSec(Number(e.target.value))} className="w-full accent-orange-500" />
+            </div>
+          </div>
+
+          {stitchProgress !== null && (
+            <div className="space-y-1">
+              <div className="h-2 bg-gray-800 rounded-full overflow-hidden">
+                <div className="h-full bg-orange-500 transition-all" style={{ width: `${Math.round(stitchProgress * 100)}%` }} />
+              </div>
+              <p className="text-xs text-gray-500">Recording animatic in real time... {Math.round(stitchProgress * 100)}%</p>
+            </div>
+          )}
+
+          {result && (
+            <div className="space-y-2">
+              <video src={result.url} controls className="w-full rounded-xl bg-black" />
+              <p className="text-xs text-gray-500">Saved to the Media Library.</p>
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-800 flex justify-between items-center gap-2">
+          {call.status
+            ? <CallStatusLine status={call.status} onCancel={call.cancel} className="text-orange-300" />
+            : <span className="text-xs text-gray-500">{doneCount}/{eligible.length} scenes animated</span>}
+          <div className="flex gap-2">
+            <button
+              onClick={animateAll}
+              disabled={busy || allDone || eligible.length === 0}
+              className="bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded-lg text-sm font-medium flex items-center gap-2 disabled:opacity-50"
+            >
+              {isAnimating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+              {doneCount > 0 ? 'Animate Remaining' : 'Animate Scenes'}
+            </button>
+            <button
+              onClick={handleStitch}
+              disabled={busy || !allDone}
+              className="bg-orange-600 hover:bg-orange-500 text-white px-4 py-2 rounded-lg text-sm font-bold flex items-center gap-2 disabled:opacity-50"
+            >
+              {stitchProgress !== null ? <Loader2 className="w-4 h-4 animate-spin" /> : <Film className="w-4 h-4" />}
+              Stitch Animatic
+            </button>
+            {result && (
+              <button onClick={handleDownload} className="bg-white text-black px-4 py-2 rounded-lg text-sm font-bold flex items-center gap-2 hover:bg-gray-200">
+                <Download className="w-4 h-4" /> Download
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
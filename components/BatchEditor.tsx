@@ -0,0 +1,304 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { editImage, isAbortError, CallOptions, DEFAULT_REMASTER_PROMPT } from '../services/geminiService';
+import { blobToDataUrl, downloadBlob, downloadMedia, getExtensionForType, urlToBlob } from '../services/mediaUtils';
+import { getSettings } from '../services/settingsService';
+import { createTaskQueue } from '../services/taskQueue';
+import { createZip } from '../services/zipWriter';
+import { EditMode, ImageAspectRatio } from '../types';
+import { useCallStatus, CallStatusLine } from './CallStatus';
+import { Loader2, Upload, Play, RotateCcw, Download, Trash2, CheckCircle2, AlertCircle, Clock, Layers } from 'lucide-react';
+
+type BatchStatus = 'idle' | 'queued' | 'processing' | 'done' | 'error';
+
+interface BatchItem {
+  id: string;
+  file: File;
+  previewUrl: string; // Object URL, released on removal
+  status: BatchStatus;
+  resultUrl?: string;
+  resultMode?: EditMode;
+  error?: string;
+}
+
+interface BatchSettings {
+  mode: EditMode;
+  prompt: string;
+  aspectRatio: ImageAspectRatio;
+}
+
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+
+let itemCounter = 0;
+
+export const BatchEditor: React.FC = () => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [mode, setMode] = useState<EditMode>('remaster');
+  const [prompt, setPrompt] = useState('');
+  const [aspectRatio, setAspectRatio] = useState<ImageAspectRatio>(() => getSettings().imageAspectRatio);
+  const [concurrency, setConcurrency] = useState(2);
+  const [isZipping, setIsZipping] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const call = useCallStatus(); // Shared by every queued item, so one Cancel stops the whole batch
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const itemsRef = useRef(items);
+  itemsRef.current = items;
+
+  // One queue for the component's lifetime, so changing concurrency mid-run adjusts it rather than adding a second one
+  const queueRef = useRef<ReturnType<typeof createTaskQueue> | null>(null);
+  if (!queueRef.current) queueRef.current = createTaskQueue(concurrency);
+  const enqueue = queueRef.current;
+
+  useEffect(() => enqueue.setConcurrency(concurrency), [enqueue, concurrency]);
+
+  useEffect(() => () => itemsRef.current.forEach(item => URL.revokeObjectURL(item.previewUrl)), []);
+
+  const updateItem = (id: string, updates: Partial<BatchItem>) => {
+    setItems(prev => prev.map(item => item.id === id ? { ...item, ...updates } : item));
+  };
+
+  const addFiles = (files: FileList | File[]) => {
+    const added = Array.from(files).filter(f => f.type.startsWith('image/')).map(file => ({
+      id: `batch-${Date.now()}-${itemCounter++}`,
+      file,
+      previewUrl: URL.createObjectURL(file),
+      status: 'idle' as BatchStatus,
+    }));
+    setItems(prev => [...prev, ...added]);
+  };
+
+  const removeItem = (id: string) => {
+    const item = items.find(i => i.id === id);
+    if (item) URL.revokeObjectURL(item.previewUrl);
+    setItems(prev => prev.filter(i => i.id !== id));
+  };
+
+  const processItem = async (item: BatchItem, settings: BatchSettings, options: CallOptions) => {
+    try {
+      // Skip items removed while they were waiting
+      if (!itemsRef.current.some(i => i.id === item.id)) return;
+      updateItem(item.id, { status: 'processing', error: undefined });
+      const dataUrl = await blobToDataUrl(item.file);
+      const isRemaster = settings.mode === 'remaster';
+      const img = await editImage(
+        dataUrl.split(',')[1],
+        isRemaster ? (settings.prompt || DEFAULT_REMASTER_PROMPT) : settings.prompt,
+        item.file.type,
+        isRemaster,
+        settings.aspectRatio,
+        undefined,
+        options
+      );
+      updateItem(item.id, { status: 'done', resultUrl: img, resultMode: settings.mode });
+    } catch (e: any) {
+      // Cancelled items go back to ready so the next run picks them up
+      if (isAbortError(e)) return updateItem(item.id, { status: 'idle' });
+      console.error(e);
+      updateItem(item.id, { status: 'error', error: e?.message || 'Failed' });
+    } finally {
+      call.end();
+    }
+  };
+
+  // Settings are captured when an item is queued, so changing them mid-run only affects later items
+  const queueItems = (targets: BatchItem[]) => {
+    const settings: BatchSettings = { mode, prompt, aspectRatio };
+    setItems(prev => prev.map(item => targets.some(t => t.id === item.id) ? { ...item, status: 'queued', resultUrl: undefined } : item));
+    targets.forEach(item => {
+      // Begun at queue time, so a cancel also drops items that haven't started yet
+      const options = call.begin(mode === 'edit' ? 'Editing batch...' : 'Remastering batch...');
+      enqueue(() => processItem(item, settings, options));
+    });
+  };
+
+  const handleStart = () => queueItems(items.filter(i => i.status === 'idle' || i.status === 'error'));
+
+  const handleDownloadZip = async () => {
+    const done = items.filter(i => i.status === 'done' && i.resultUrl);
+    if (done.length === 0) return;
+    setIsZipping(true);
+    try {
+      const entries = await Promise.all(done.map(async (item, i) => {
+        const blob = await urlToBlob(item.resultUrl!);
+        const base = item.file.name.replace(/\.[^.]+$/, '');
+        return {
+          name: `${String(i + 1).padStart(2, '0')}-${base}-${item.resultMode}.${getExtensionForType(blob.type, 'png')}`,
+          data: new Uint8Array(await blob.arrayBuffer()),
+        };
+      }));
+      downloadBlob(createZip(entries), `omnicreate-batch-${new Date().toISOString().slice(0, 10)}.zip`);
+    } catch (e) {
+      console.error(e);
+      alert("Failed to build the zip file.");
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  const counts = items.reduce((acc, item) => ({ ...acc, [item.status]: (acc[item.status] || 0) + 1 }), {} as Record<BatchStatus, number>);
+  const isRunning = (counts.queued || 0) + (counts.processing || 0) > 0;
+  const pendingCount = (counts.idle || 0) + (counts.error || 0);
+
+  const renderStatus = (item: BatchItem) => {
+    switch (item.status) {
+      case 'queued': return <span className="text-gray-400 flex items-center gap-1"><Clock className="w-3 h-3" /> Queued</span>;
+      case 'processing': return <span className="text-green-300 flex items-center gap-1"><Loader2 className="w-3 h-3 animate-spin" /> Processing</span>;
+      case 'done': return <span className="text-green-400 flex items-center gap-1"><CheckCircle2 className="w-3 h-3" /> Done</span>;
+      case 'error': return <span className="text-red-400 flex items-center gap-1" title={item.error}><AlertCircle className="w-3 h-3" /> Failed</span>;
+      default: return <span className="text-gray-500">Ready</span>;
+    }
+  };
+
+  return (
+    <div className="flex flex-col md:flex-row gap-8 h-full">
+      {/* Controls */}
+      <div className="w-full md:w-1/3 flex flex-col gap-6">
+        <div className="flex gap-2 bg-gray-800 p-1 rounded-lg">
+          {(['edit', 'remaster'] as EditMode[]).map(m => (
+            <button
+              key={m}
+              onClick={() => setMode(m)}
+              className={`flex-1 py-2 text-sm font-medium rounded-md transition ${mode === m ? 'bg-gray-700 text-white shadow' : 'text-gray-400 hover:text-white'}`}
+            >
+              {m === 'edit' ? 'Edit' : 'Upscale/Remaster'}
+            </button>
+          ))}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Output Aspect Ratio</label>
+          <select
+            value={aspectRatio}
+            onChange={(e) => setAspectRatio(e.target.value as ImageAspectRatio)}
+            className="w-full bg-gray-800 border border-gray-700 rounded-lg p-2 text-white focus:ring-2 focus:ring-green-500 outline-none"
+          >
+            {Object.values(ImageAspectRatio).map((ratio) => (
+              <option key={ratio} value={ratio}>{ratio}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">
+            {mode === 'edit' ? 'Edit Instructions' : 'Extra Instructions (Optional)'}
+          </label>
+          <textarea
+            className="w-full bg-gray-800 border border-gray-700 rounded-lg p-3 text-white focus:ring-2 focus:ring-green-500 focus:outline-none min-h-[100px]"
+            placeholder={mode === 'edit' ? "Applied to every image, e.g. 'Replace the background with a white studio'" : "e.g. 'Cyberpunk style', 'Oil painting'"}
+            value={prompt}
+            onChange={(e) => setPrompt(e.target.value)}
+          />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <label className="text-sm font-medium text-gray-300">Parallel Jobs</label>
+          <div className="flex gap-1">
+            {CONCURRENCY_OPTIONS.map(n => (
+              <button
+                key={n}
+                onClick={() => setConcurrency(n)}
+                className={`w-8 h-8 rounded-md text-sm transition ${concurrency === n ? 'bg-green-600 text-white' : 'bg-gray-800 text-gray-400 hover:text-white'}`}
+              >
+                {n}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <button
+          onClick={handleStart}
+          disabled={pendingCount === 0 || (mode === 'edit' && !prompt)}
+          className="w-full bg-gradient-to-r from-green-600 to-teal-600 hover:from-green-500 hover:to-teal-500 text-white font-bold py-3 px-6 rounded-lg shadow-lg transform transition hover:scale-[1.02] disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+        >
+          {isRunning ? <Loader2 className="animate-spin" /> : <Play />}
+          Process {pendingCount > 0 ? `${pendingCount} Image${pendingCount === 1 ? '' : 's'}` : 'Batch'}
+        </button>
+        <CallStatusLine status={call.status} onCancel={call.cancel} className="text-green-300" />
+
+        <button
+          onClick={handleDownloadZip}
+          disabled={!counts.done || isZipping}
+          className="w-full bg-gray-800 hover:bg-gray-700 text-white font-semibold py-3 rounded-lg flex items-center justify-center gap-2 disabled:opacity-50"
+        >
+          {isZipping ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+          Download {counts.done || 0} Result{counts.done === 1 ? '' : 's'} (.zip)
+        </button>
+      </div>
+
+      {/* Queue */}
+      <div className="w-full md:w-2/3 flex flex-col gap-4">
+        <div
+          onClick={() => fileInputRef.current?.click()}
+          onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={(e) => { e.preventDefault(); setIsDragging(false); addFiles(e.dataTransfer.files); }}
+          className={`border-2 border-dashed rounded-lg p-6 flex flex-col items-center justify-center cursor-pointer transition bg-gray-800/50 ${isDragging ? 'border-green-500' : 'border-gray-700 hover:border-green-500'}`}
+        >
+          <Upload className="w-8 h-8 text-gray-400 mb-2" />
+          <span className="text-sm text-gray-300">Drop images here or click to add</span>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*"
+            multiple
+            onChange={(e) => { if (e.target.files) addFiles(e.target.files); e.target.value = ''; }}
+            className="hidden"
+          />
+        </div>
+
+        {items.length === 0 ? (
+          <div className="flex-1 flex flex-col items-center justify-center text-gray-600 min-h-[200px]">
+            <Layers className="w-10 h-10 mb-2" />
+            <p>No images in the batch yet</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3 overflow-y-auto">
+            {items.map(item => (
+              <div key={item.id} className="bg-gray-800 rounded-xl overflow-hidden border border-gray-700 group">
+                <div className="aspect-square bg-black relative">
+                  <img src={item.resultUrl || item.previewUrl} className="w-full h-full object-cover" />
+                  {item.status === 'processing' && <div className="absolute inset-0 bg-gray-900/60" />}
+                  <div className="absolute top-1 right-1 flex gap-1 opacity-0 group-hover:opacity-100 transition">
+                    {item.resultUrl && (
+                      <button
+                        onClick={() => downloadMedia(item.resultUrl!, `${item.file.name.replace(/\.[^.]+$/, '')}-${item.resultMode}`, 'image')}
+                        className="bg-black/70 text-white p-1.5 rounded-full"
+                        title="Download"
+                      >
+                        <Download className="w-3 h-3" />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => removeItem(item.id)}
+                      disabled={item.status === 'processing'}
+                      className="bg-black/70 text-white hover:text-red-400 p-1.5 rounded-full disabled:opacity-30"
+                      title="Remove"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </div>
+                </div>
+                <div className="px-2 py-1.5 flex items-center justify-between text-xs gap-2">
+                  <span className="truncate text-gray-300" title={item.file.name}>{item.file.name}</span>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    {renderStatus(item)}
+                    {(item.status === 'error' || item.status === 'done') && (
+                      <button
+                        onClick={() => queueItems([item])}
+                        disabled={mode === 'edit' && !prompt}
+                        className="text-gray-400 hover:text-white disabled:opacity-30"
+                        title="Run again"
+                      >
+                        <RotateCcw className="w-3 h-3" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
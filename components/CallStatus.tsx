@@ -0,0 +1,72 @@
+import React, { useState, useRef } from 'react';
+import { CallOptions, ServiceProgress } from '../services/geminiService';
+import { Loader2, X } from 'lucide-react';
+
+const formatElapsed = (ms: number) => {
+  const total = Math.floor(ms / 1000);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
+const describeProgress = (progress: ServiceProgress, label: string) => {
+  switch (progress.type) {
+    case 'retry':
+      return `${label} · ${progress.reason}, retry ${progress.attempt}/${progress.maxRetries} after ${Math.ceil(progress.delayMs / 1000)}s`;
+    case 'poll':
+      return `${label} · ${formatElapsed(progress.elapsedMs)} elapsed`;
+  }
+};
+
+// Shares one AbortController across every call started until they have all ended,
+// so a batch (e.g. "Generate All") is cancelled by a single click
+export const useCallStatus = () => {
+  const controller = useRef<AbortController | null>(null);
+  const active = useRef(0);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const begin = (label: string): CallOptions => {
+    if (!controller.current) controller.current = new AbortController();
+    active.current++;
+    setStatus(label);
+    return {
+      signal: controller.current.signal,
+      onProgress: (progress) => setStatus(describeProgress(progress, label)),
+    };
+  };
+
+  const end = () => {
+    active.current = Math.max(0, active.current - 1);
+    if (active.current > 0) return;
+    controller.current = null;
+    setStatus(null);
+  };
+
+  // Calls begun after this get a fresh controller instead of one that is already aborted
+  const cancel = () => {
+    controller.current?.abort();
+    controller.current = null;
+  };
+
+  return { status, begin, end, cancel };
+};
+
+interface CallStatusLineProps {
+  status: string | null;
+  onCancel: () => void;
+  className?: string;
+}
+
+export const CallStatusLine: React.FC<CallStatusLineProps> = ({ status, onCancel, className = 'text-gray-300' }) => {
+  if (!status) return null;
+  return (
+    <div className={`inline-flex items-center gap-3 text-sm ${className}`}>
+      <Loader2 className="w-4 h-4 animate-spin shrink-0" />
+      <span>{status}</span>
+      <button
+        onClick={onCancel}
+        className="text-xs bg-gray-800 hover:bg-red-600 text-gray-200 hover:text-white px-2 py-1 rounded-md flex items-center gap-1 transition"
+      >
+        <X className="w-3 h-3" /> Cancel
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,264 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ChatMessage, ChatThread, CustomModel } from '../types';
+import { chatWithCustomModel } from '../services/geminiService';
+import { getThreadsForModel, saveThread, deleteThreadById } from '../services/storageService';
+import { Loader2, Plus, Trash2, Send, Paperclip, X, RotateCcw, Pencil, Check, MessageSquare } from 'lucide-react';
+
+interface CharacterChatProps {
+  model: CustomModel;
+}
+
+const newThread = (modelId: string): ChatThread => ({
+  id: `thread-${Date.now()}`,
+  modelId,
+  title: "New Chat",
+  messages: [],
+  lastModified: Date.now(),
+});
+
+export const CharacterChat: React.FC<CharacterChatProps> = ({ model }) => {
+  const [threads, setThreads] = useState<ChatThread[]>([]);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  const [input, setInput] = useState('');
+  const [attachment, setAttachment] = useState<string | null>(null);
+  const [isSending, setIsSending] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+
+  const attachmentInputRef = useRef<HTMLInputElement>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    getThreadsForModel(model.id).then(loaded => {
+      setThreads(loaded);
+      setActiveThreadId(loaded[0]?.id || null);
+    });
+  }, [model.id]);
+
+  const activeThread = threads.find(t => t.id === activeThreadId);
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight, behavior: 'smooth' });
+  }, [activeThread?.messages.length, isSending]);
+
+  const commitThread = (thread: ChatThread) => {
+    const updated = { ...thread, lastModified: Date.now() };
+    setThreads(prev => [updated, ...prev.filter(t => t.id !== updated.id)]);
+    saveThread(updated);
+    return updated;
+  };
+
+  const handleNewThread = () => {
+    const thread = commitThread(newThread(model.id));
+    setActiveThreadId(thread.id);
+  };
+
+  const handleDeleteThread = async (id: string) => {
+    if (!window.confirm("Delete this conversation?")) return;
+    await deleteThreadById(id);
+    const remaining = threads.filter(t => t.id !== id);
+    setThreads(remaining);
+    if (activeThreadId === id) setActiveThreadId(remaining[0]?.id || null);
+  };
+
+  // Sends `userMessage` on top of `baseMessages` (everything before it) and appends the reply
+  const runTurn = async (thread: ChatThread, baseMessages: ChatMessage[], userMessage: ChatMessage) => {
+    const title = baseMessages.length === 0 && userMessage.text ? userMessage.text.slice(0, 40) : thread.title;
+    let current = commitThread({ ...thread, title, messages: [...baseMessages, userMessage] });
+    setIsSending(true);
+    try {
+      const reply = await chatWithCustomModel(
+        {
+          systemInstruction: model.systemInstruction || `You are ${model.name}. Stay in character at all times.`,
+          examples: model.examples,
+        },
+        baseMessages,
+        userMessage.text,
+        userMessage.attachmentUrl
+      );
+      const modelMessage: ChatMessage = { id: `msg-${Date.now()}`, role: 'model', text: reply };
+      current = commitThread({ ...current, messages: [...current.messages, modelMessage] });
+    } catch (e) {
+      console.error(e);
+      alert("The character failed to respond. Please try again.");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleSend = async () => {
+    if ((!input.trim() && !attachment) || isSending) return;
+    const thread = activeThread || newThread(model.id);
+    if (!activeThread) setActiveThreadId(thread.id);
+
+    const userMessage: ChatMessage = {
+      id: `msg-${Date.now()}`,
+      role: 'user',
+      text: input.trim(),
+      attachmentUrl: attachment || undefined,
+    };
+    setInput('');
+    setAttachment(null);
+    await runTurn(thread, thread.messages, userMessage);
+  };
+
+  // Drop the reply at `index` (and everything after it) and ask again
+  const handleRegenerate = async (index: number) => {
+    if (!activeThread || isSending) return;
+    const userMessage = activeThread.messages[index - 1];
+    if (!userMessage || userMessage.role !== 'user') return;
+    await runTurn(activeThread, activeThread.messages.slice(0, index - 1), userMessage);
+  };
+
+  const startEditing = (message: ChatMessage) => {
+    setEditingId(message.id);
+    setEditText(message.text);
+  };
+
+  // Rewrite a past user turn; later turns are discarded and the conversation continues from there
+  const handleSaveEdit = async (index: number) => {
+    if (!activeThread || isSending) return;
+    const original = activeThread.messages[index];
+    setEditingId(null);
+    if (!editText.trim() && !original.attachmentUrl) return;
+    await runTurn(activeThread, activeThread.messages.slice(0, index), { ...original, text: editText.trim() });
+  };
+
+  const handleAttachmentChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files[0]) {
+      const reader = new FileReader();
+      reader.onload = () => setAttachment(reader.result as string);
+      reader.readAsDataURL(e.target.files[0]);
+      e.target.value = '';
+    }
+  };
+
+  return (
+    <div className="flex h-[600px]">
+      {/* Thread List */}
+      <div className="w-56 border-r border-gray-800 flex flex-col">
+        <button
+          onClick={handleNewThread}
+          className="m-3 bg-yellow-600/20 hover:bg-yellow-600 text-yellow-300 hover:text-white py-2 rounded-lg text-sm font-medium flex items-center justify-center gap-2 transition"
+        >
+          <Plus className="w-4 h-4" /> New Chat
+        </button>
+        <div className="flex-1 overflow-y-auto px-2 space-y-1">
+          {threads.map(thread => (
+            <div
+              key={thread.id}
+              onClick={() => setActiveThreadId(thread.id)}
+              className={`group flex items-center gap-2 px-3 py-2 rounded-lg cursor-pointer text-sm transition ${
+                thread.id === activeThreadId ? 'bg-gray-800 text-white' : 'text-gray-400 hover:bg-gray-800/50 hover:text-gray-200'
+              }`}
+            >
+              <MessageSquare className="w-3 h-3 flex-shrink-0" />
+              <span className="flex-1 truncate">{thread.title}</span>
+              <button
+                onClick={(e) => { e.stopPropagation(); handleDeleteThread(thread.id); }}
+                className="text-gray-500 hover:text-red-400 opacity-0 group-hover:opacity-100 transition"
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Conversation */}
+      <div className="flex-1 flex flex-col min-w-0">
+        <div ref={scrollRef} className="flex-1 overflow-y-auto p-6 space-y-4">
+          {(!activeThread || activeThread.messages.length === 0) && (
+            <div className="h-full flex flex-col items-center justify-center text-gray-600">
+              <MessageSquare className="w-10 h-10 opacity-20 mb-3" />
+              <p>Say hello to <b className="text-gray-400">{model.name}</b></p>
+            </div>
+          )}
+          {activeThread?.messages.map((message, index) => (
+            <div key={message.id} className={`group flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+              <div className={`max-w-[75%] rounded-2xl px-4 py-3 text-sm ${
+                message.role === 'user' ? 'bg-yellow-600/20 border border-yellow-600/30 text-gray-100' : 'bg-gray-800 border border-gray-700 text-gray-200'
+              }`}>
+                {message.attachmentUrl && (
+                  <img src={message.attachmentUrl} className="max-h-48 rounded-lg mb-2" />
+                )}
+                {editingId === message.id ? (
+                  <div className="space-y-2">
+                    <textarea
+                      value={editText}
+                      onChange={(e) => setEditText(e.target.value)}
+                      className="w-full min-w-[240px] bg-gray-900 border border-gray-600 rounded-lg p-2 text-white outline-none focus:ring-2 focus:ring-yellow-500 resize-none"
+                      rows={3}
+                    />
+                    <div className="flex justify-end gap-2">
+                      <button onClick={() => setEditingId(null)} className="text-xs text-gray-400 hover:text-white px-2 py-1">Cancel</button>
+                      <button onClick={() => handleSaveEdit(index)} className="text-xs bg-yellow-600 hover:bg-yellow-500 text-white px-2 py-1 rounded flex items-center gap-1">
+                        <Check className="w-3 h-3" /> Save & Resend
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <p className="whitespace-pre-wrap leading-relaxed">{message.text}</p>
+                )}
+                {editingId !== message.id && !isSending && (
+                  <div className="flex justify-end mt-1 opacity-0 group-hover:opacity-100 transition">
+                    {message.role === 'user' ? (
+                      <button onClick={() => startEditing(message)} className="text-gray-500 hover:text-yellow-300" title="Edit">
+                        <Pencil className="w-3 h-3" />
+                      </button>
+                    ) : (
+                      <button onClick={() => handleRegenerate(index)} className="text-gray-500 hover:text-yellow-300" title="Regenerate">
+                        <RotateCcw className="w-3 h-3" />
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+          {isSending && (
+            <div className="flex items-center gap-2 text-yellow-400 text-sm">
+              <Loader2 className="w-4 h-4 animate-spin" /> {model.name} is typing...
+            </div>
+          )}
+        </div>
+
+        {/* Composer */}
+        <div className="border-t border-gray-800 p-4 space-y-2">
+          {attachment && (
+            <div className="relative w-16 h-16 rounded-lg overflow-hidden border border-gray-600">
+              <img src={attachment} className="w-full h-full object-cover" />
+              <button onClick={() => setAttachment(null)} className="absolute top-0.5 right-0.5 bg-black/60 p-0.5 rounded-full text-white hover:bg-red-500">
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          )}
+          <div className="flex gap-2">
+            <button
+              onClick={() => attachmentInputRef.current?.click()}
+              className="p-3 bg-gray-800 hover:bg-gray-700 rounded-lg text-gray-400 hover:text-white transition"
+              title="Attach image"
+            >
+              <Paperclip className="w-4 h-4" />
+              <input ref={attachmentInputRef} type="file" accept="image/*" className="hidden" onChange={handleAttachmentChange} />
+            </button>
+            <input
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleSend(); } }}
+              className="flex-1 bg-gray-800 border border-gray-700 rounded-lg p-3 text-white focus:ring-2 focus:ring-yellow-500 outline-none"
+              placeholder={`Message ${model.name}...`}
+            />
+            <button
+              onClick={handleSend}
+              disabled={isSending || (!input.trim() && !attachment)}
+              className="px-4 bg-yellow-600 hover:bg-yellow-500 text-white rounded-lg disabled:opacity-50 disabled:cursor-not-allowed flex items-center"
+            >
+              {isSending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { CustomModel } from '../types';
+import { CollisionStrategy, resolveCollisions } from '../services/bundleService';
+import { FileUp, AlertTriangle, X } from 'lucide-react';
+
+interface CharacterImportModalProps {
+  incoming: CustomModel[];
+  existing: CustomModel[];
+  onImport: (models: CustomModel[]) => void;
+  onClose: () => void;
+}
+
+const STRATEGIES: { value: CollisionStrategy; label: string; hint: string }[] = [
+  { value: 'rename', label: 'Keep Both', hint: 'Imported copies get a new id and an "(imported)" suffix.' },
+  { value: 'overwrite', label: 'Overwrite', hint: 'Replace the local characters with the imported ones.' },
+  { value: 'skip', label: 'Skip', hint: 'Leave the local characters untouched.' },
+];
+
+export const CharacterImportModal: React.FC<CharacterImportModalProps> = ({ incoming, existing, onImport, onClose }) => {
+  const [strategy, setStrategy] = useState<CollisionStrategy>('rename');
+  const existingIds = new Set(existing.map(m => m.id));
+  const collisionCount = incoming.filter(m => existingIds.has(m.id)).length;
+  const toImport = resolveCollisions(incoming, existing, strategy);
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-gray-900 border border-gray-700 rounded-2xl w-full max-w-lg shadow-2xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-6 border-b border-gray-800 flex justify-between items-center bg-gradient-to-r from-yellow-900/20 to-orange-900/20">
+          <h3 className="text-xl font-bold text-white flex items-center gap-2">
+            <FileUp className="text-yellow-400" /> Import Characters
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <div className="space-y-2">
+            {incoming.map(model => (
+              <div key={model.id} className="flex items-center gap-3 bg-gray-800 rounded-lg p-2 border border-gray-700">
+                <div className="w-10 h-10 rounded-lg bg-gray-700 overflow-hidden flex items-center justify-center flex-shrink-0">
+                  {model.avatar?.startsWith('data:') ? <img src={model.avatar} className="w-full h-full object-cover" /> : model.avatar || "👤"}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-semibold text-white truncate">{model.name}</p>
+                  <p className="text-[10px] text-gray-500">
+                    {model.examples.length} examples · {model.referenceImages?.length || 0} references
+                  </p>
+                </div>
+                {existingIds.has(model.id) && (
+                  <span className="text-[10px] text-orange-300 bg-orange-500/10 border border-orange-500/30 px-2 py-0.5 rounded-full">Already exists</span>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {collisionCount > 0 && (
+            <div className="bg-orange-500/10 border border-orange-500/30 rounded-xl p-4 space-y-3">
+              <p className="text-sm text-orange-200 flex items-center gap-2">
+                <AlertTriangle className="w-4 h-4" /> {collisionCount} character{collisionCount > 1 ? 's' : ''} already in your library
+              </p>
+              {STRATEGIES.map(option => (
+                <label key={option.value} className="flex items-start gap-2 cursor-pointer">
+                  <input
+                    type="radio"
+                    checked={strategy === option.value}
+                    onChange={() => setStrategy(option.value)}
+                    className="mt-1 accent-yellow-500"
+                  />
+                  <span>
+                    <span className="text-sm text-white font-medium">{option.label}</span>
+                    <span className="block text-xs text-gray-400">{option.hint}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-800 flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 rounded-lg text-sm font-medium text-gray-400 hover:text-white transition">
+            Cancel
+          </button>
+          <button
+            onClick={() => onImport(toImport)}
+            disabled={toImport.length === 0}
+            className="bg-gradient-to-r from-yellow-600 to-orange-600 hover:from-yellow-500 hover:to-orange-500 text-white px-4 py-2 rounded-lg text-sm font-bold disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Import {toImport.length} Character{toImport.length === 1 ? '' : 's'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
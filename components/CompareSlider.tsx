@@ -0,0 +1,38 @@
+import React, { useState } from 'react';
+
+interface CompareSliderProps {
+  beforeUrl: string;
+  afterUrl: string;
+  beforeLabel: string;
+  afterLabel: string;
+}
+
+// "After" sits underneath; "before" is clipped to the left of the handle
+export const CompareSlider: React.FC<CompareSliderProps> = ({ beforeUrl, afterUrl, beforeLabel, afterLabel }) => {
+  const [position, setPosition] = useState(50);
+
+  return (
+    <div className="relative inline-block max-h-full max-w-full select-none">
+      <img src={afterUrl} alt={afterLabel} className="block max-h-[70vh] max-w-full rounded" draggable={false} />
+      <img
+        src={beforeUrl}
+        alt={beforeLabel}
+        className="absolute inset-0 w-full h-full object-fill rounded"
+        style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }}
+        draggable={false}
+      />
+      <div className="absolute top-0 bottom-0 w-0.5 bg-white shadow pointer-events-none" style={{ left: `${position}%` }} />
+      <span className="absolute top-2 left-2 bg-black/60 text-white text-xs px-2 py-1 rounded">{beforeLabel}</span>
+      <span className="absolute top-2 right-2 bg-black/60 text-white text-xs px-2 py-1 rounded">{afterLabel}</span>
+      <input
+        type="range"
+        min={0}
+        max={100}
+        value={position}
+        onChange={(e) => setPosition(Number(e.target.value))}
+        className="absolute inset-0 w-full h-full opacity-0 cursor-ew-resize"
+        aria-label="Comparison position"
+      />
+    </div>
+  );
+};
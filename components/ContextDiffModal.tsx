@@ -0,0 +1,73 @@
+import React, { useMemo } from 'react';
+import { diffWords, mergeDescriptors } from '../services/textDiff';
+import { ScanFace, Check, GitMerge, X } from 'lucide-react';
+
+interface ContextDiffModalProps {
+  current: string;
+  proposed: string;
+  onApply: (text: string) => void;
+  onClose: () => void;
+}
+
+export const ContextDiffModal: React.FC<ContextDiffModalProps> = ({ current, proposed, onApply, onClose }) => {
+  const segments = useMemo(() => diffWords(current, proposed), [current, proposed]);
+  const merged = useMemo(() => mergeDescriptors(current, proposed), [current, proposed]);
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-gray-900 border border-gray-700 rounded-2xl w-full max-w-2xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-6 border-b border-gray-800 flex justify-between items-center bg-gradient-to-r from-cyan-900/20 to-blue-900/20">
+          <h3 className="text-xl font-bold text-white flex items-center gap-2">
+            <ScanFace className="text-cyan-400" /> Extracted Visual Description
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <div className="flex gap-4 text-xs text-gray-400">
+            <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-red-500/30 border border-red-500/50" /> Removed</span>
+            <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-green-500/30 border border-green-500/50" /> Added</span>
+          </div>
+          <div className="bg-gray-800 border border-gray-700 rounded-xl p-4 text-sm leading-relaxed text-gray-300">
+            {segments.map((segment, i) => (
+              <span
+                key={i}
+                className={
+                  segment.type === 'added' ? 'bg-green-500/20 text-green-300 rounded' :
+                  segment.type === 'removed' ? 'bg-red-500/20 text-red-300 line-through rounded' : ''
+                }
+              >
+                {segment.text}
+              </span>
+            ))}
+          </div>
+
+          <div>
+            <label className="text-xs text-gray-400 uppercase font-bold tracking-wider">Merged Result</label>
+            <p className="mt-1 bg-gray-800/50 border border-gray-700 rounded-xl p-4 text-sm text-gray-400 leading-relaxed">{merged}</p>
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-gray-800 flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 rounded-lg text-sm font-medium text-gray-400 hover:text-white transition">
+            Keep Current
+          </button>
+          <button
+            onClick={() => onApply(merged)}
+            className="bg-gray-800 hover:bg-gray-700 text-white px-4 py-2 rounded-lg text-sm font-medium flex items-center gap-2 transition"
+          >
+            <GitMerge className="w-4 h-4" /> Merge
+          </button>
+          <button
+            onClick={() => onApply(proposed)}
+            className="bg-cyan-600 hover:bg-cyan-500 text-white px-4 py-2 rounded-lg text-sm font-medium flex items-center gap-2 transition"
+          >
+            <Check className="w-4 h-4" /> Accept Extracted
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
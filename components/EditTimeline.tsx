@@ -0,0 +1,74 @@
+import React from 'react';
+import { EditStep } from '../types';
+import { GitBranch } from 'lucide-react';
+
+interface EditTimelineProps {
+  steps: EditStep[];
+  currentId: string;
+  onSelect: (id: string) => void;
+}
+
+const MODE_STYLES: Record<EditStep['mode'], string> = {
+  original: 'bg-gray-700 text-gray-300',
+  edit: 'bg-green-600/20 text-green-300',
+  remaster: 'bg-teal-600/20 text-teal-300',
+  adjust: 'bg-sky-600/20 text-sky-300',
+};
+
+export const getStepLabel = (steps: EditStep[], step: EditStep) =>
+  step.parentId === null ? 'Original' : `Step ${steps.indexOf(step)}`;
+
+// Depth-first walk so each branch reads top to bottom under the step it grew from.
+// The first child continues its parent's line; only later siblings are indented as branches.
+const flattenTree = (steps: EditStep[]) => {
+  const rows: { step: EditStep; depth: number; isBranch: boolean }[] = [];
+  const visit = (parentId: string | null, depth: number) => {
+    steps.filter(s => s.parentId === parentId).forEach((step, i) => {
+      const stepDepth = i === 0 ? depth : depth + 1;
+      rows.push({ step, depth: stepDepth, isBranch: i > 0 });
+      visit(step.id, stepDepth);
+    });
+  };
+  visit(null, 0);
+  return rows;
+};
+
+export const EditTimeline: React.FC<EditTimelineProps> = ({ steps, currentId, onSelect }) => {
+  // Steps between the original and the current one
+  const activePath = new Set<string>();
+  for (let step = steps.find(s => s.id === currentId); step; step = steps.find(s => s.id === step!.parentId)) {
+    activePath.add(step.id);
+  }
+
+  return (
+    <div className="space-y-1">
+      {flattenTree(steps).map(({ step, depth, isBranch }) => {
+        const indent = Math.min(depth, 6) * 12;
+        return (
+          <button
+            key={step.id}
+            onClick={() => onSelect(step.id)}
+            style={{ marginLeft: indent, width: `calc(100% - ${indent}px)` }}
+            className={`flex items-center gap-2 p-1.5 rounded-lg border text-left transition ${
+              step.id === currentId
+                ? 'bg-green-600/20 border-green-500'
+                : activePath.has(step.id)
+                  ? 'bg-gray-800 border-gray-600'
+                  : 'bg-gray-900 border-gray-800 opacity-60 hover:opacity-100'
+            }`}
+          >
+            <img src={step.imageUrl} className="w-10 h-10 rounded object-cover flex-shrink-0" />
+            <div className="min-w-0 flex-1">
+              <div className="flex items-center gap-1">
+                <span className="text-xs font-semibold text-white">{getStepLabel(steps, step)}</span>
+                <span className={`text-[10px] px-1.5 rounded-full ${MODE_STYLES[step.mode]}`}>{step.mode}</span>
+                {isBranch && <GitBranch className="w-3 h-3 text-gray-500" />}
+              </div>
+              <p className="text-[11px] text-gray-400 truncate" title={step.prompt}>{step.prompt || '—'}</p>
+            </div>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
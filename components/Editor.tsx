@@ -1,87 +1,193 @@
-import React, { useState, useRef } from 'react';
-import { editImage } from '../services/geminiService';
-import { ImageAspectRatio } from '../types';
-import { Loader2, Upload, Eraser, Sparkles, RefreshCcw, Download } from 'lucide-react';
+import React, { useState, useRef, useEffect } from 'react';
+import { editImage, isAbortError, DEFAULT_REMASTER_PROMPT } from '../services/geminiService';
+import { getSettings } from '../services/settingsService';
+import { downloadMedia } from '../services/mediaUtils';
+import { isMaskEmpty, maskToBase64, compositeMaskedEdit, closestAspectRatio } from '../services/maskUtils';
+import { EditMode, EditStep, ImageAspectRatio } from '../types';
+import { MaskCanvas, MaskTool } from './MaskCanvas';
+import { EditTimeline, getStepLabel } from './EditTimeline';
+import { CompareSlider } from './CompareSlider';
+import { BatchEditor } from './BatchEditor';
+import { ImageToolkitModal } from './ImageToolkitModal';
+import { useCallStatus, CallStatusLine } from './CallStatus';
+import { Loader2, Upload, Eraser, Sparkles, RefreshCcw, Download, Brush, Lasso, Square, Trash2, Undo2, Redo2, Columns2, History, SlidersHorizontal } from 'lucide-react';
+
+const MASK_TOOLS: { id: MaskTool; label: string; icon: React.ElementType }[] = [
+  { id: 'brush', label: 'Brush', icon: Brush },
+  { id: 'eraser', label: 'Eraser', icon: Eraser },
+  { id: 'lasso', label: 'Lasso', icon: Lasso },
+  { id: 'rect', label: 'Rectangle', icon: Square },
+];
 
 export const Editor: React.FC = () => {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [preview, setPreview] = useState<string | null>(null);
   const [prompt, setPrompt] = useState('');
   const [loading, setLoading] = useState(false);
-  const [result, setResult] = useState<string | null>(null);
-  const [mode, setMode] = useState<'edit' | 'remaster'>('edit');
-  const [aspectRatio, setAspectRatio] = useState<ImageAspectRatio>(ImageAspectRatio.SQUARE);
+  const call = useCallStatus();
+  const [mode, setMode] = useState<EditMode>('edit');
+  const [isBatch, setIsBatch] = useState(false);
+  const [aspectRatio, setAspectRatio] = useState<ImageAspectRatio>(() => getSettings().imageAspectRatio);
+
+  // Region mask
+  const [maskTool, setMaskTool] = useState<MaskTool>('brush');
+  const [brushSize, setBrushSize] = useState(30);
+  const [hasMask, setHasMask] = useState(false);
+  const maskCanvasRef = useRef<HTMLCanvasElement>(null);
+
+  // Edit stack: every result is a step whose parent was its input, so the steps form a tree
+  const [steps, setSteps] = useState<EditStep[]>([]);
+  const [currentId, setCurrentId] = useState<string | null>(null);
+  const [compareIds, setCompareIds] = useState<[string, string] | null>(null);
+  const [showToolkit, setShowToolkit] = useState(false);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  const clearMask = () => {
+    const canvas = maskCanvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasMask(false);
+  };
+
+  const handleMaskChange = () => {
+    if (maskCanvasRef.current) setHasMask(!isMaskEmpty(maskCanvasRef.current));
+  };
+
+  const current = steps.find(s => s.id === currentId);
+  const redoTarget = [...steps].reverse().find(s => s.parentId === currentId); // Latest child of the current step
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       const file = e.target.files[0];
       setSelectedFile(file);
       const reader = new FileReader();
-      reader.onload = () => setPreview(reader.result as string);
+      reader.onload = () => {
+        // A new upload starts a fresh stack
+        const original: EditStep = {
+          id: Date.now().toString(),
+          parentId: null,
+          imageUrl: reader.result as string,
+          prompt: file.name,
+          mode: 'original',
+          timestamp: Date.now(),
+        };
+        setSteps([original]);
+        setCurrentId(original.id);
+        setCompareIds(null);
+      };
       reader.readAsDataURL(file);
-      setResult(null); // Reset result on new upload
+      clearMask();
     }
   };
 
-  const convertToBase64 = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.readAsDataURL(file);
-      reader.onload = () => {
-        const result = reader.result as string;
-        // Remove data URL prefix for API
-        const base64 = result.split(',')[1];
-        resolve(base64);
-      };
-      reader.onerror = error => reject(error);
-    });
+  const selectStep = (id: string) => {
+    setCurrentId(id);
+    setCompareIds(null);
+  };
+
+  const undo = () => current?.parentId && selectStep(current.parentId);
+  const redo = () => redoTarget && selectStep(redoTarget.id);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z' || loading) return;
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      e.preventDefault();
+      if (e.shiftKey) redo();
+      else undo();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  const toggleCompare = () => {
+    if (compareIds || !current) {
+      setCompareIds(null);
+      return;
+    }
+    const before = current.parentId || steps.find(s => s.id !== current.id)?.id;
+    if (before) setCompareIds([before, current.id]);
+  };
+
+  const addStep = (parentId: string, imageUrl: string, prompt: string, mode: EditStep['mode']) => {
+    const step: EditStep = { id: Date.now().toString(), parentId, imageUrl, prompt, mode, timestamp: Date.now() };
+    setSteps(prev => [...prev, step]);
+    setCurrentId(step.id);
   };
 
+  // Each edit runs on the current step, so chaining and branching are the same operation
   const handleProcess = async () => {
     if (!prompt && mode === 'edit') return;
-    if (!selectedFile) return;
+    if (!current) return;
     
+    const input = current;
     setLoading(true);
-    setResult(null);
+    setCompareIds(null);
     try {
-      const base64 = await convertToBase64(selectedFile);
+      // Remove data URL prefix for API
+      const base64 = input.imageUrl.split(',')[1];
+      const mimeType = input.imageUrl.slice(5, input.imageUrl.indexOf(';'));
       const isRemaster = mode === 'remaster';
       
       const instructions = isRemaster 
-        ? (prompt || "High resolution, detailed, photorealistic version of this image, 4k, masterpiece, highly detailed texture") 
+        ? (prompt || DEFAULT_REMASTER_PROMPT) 
         : prompt;
 
+      // Masked edits are fitted back over the original, so everything outside the mask stays pixel-identical
+      const mask = !isRemaster && hasMask ? maskCanvasRef.current : null;
       const img = await editImage(
         base64, 
         instructions, 
-        selectedFile.type,
+        mimeType,
         isRemaster, // High Quality flag
-        aspectRatio
+        mask ? closestAspectRatio(mask.width, mask.height) : aspectRatio,
+        mask ? maskToBase64(mask) : undefined,
+        call.begin(isRemaster ? 'Remastering...' : 'Processing...')
       );
-      setResult(img);
+
+      addStep(input.id, mask ? await compositeMaskedEdit(input.imageUrl, img, mask) : img, instructions, mode);
 
     } catch (error) {
       console.error(error);
-      alert('Failed to process image. If you hit a quota limit, please try again in a few moments.');
+      if (!isAbortError(error)) alert('Failed to process image. If you hit a quota limit, please try again in a few moments.');
     } finally {
+      call.end();
       setLoading(false);
     }
   };
 
   return (
     <div className="flex flex-col h-full max-w-5xl mx-auto p-6 space-y-8">
-       <div className="flex flex-col md:flex-row gap-8 h-full">
-        {/* Controls */}
-        <div className="w-full md:w-1/3 flex flex-col gap-6">
-           <div>
+       <div className="flex justify-between items-center">
+          <div>
             <h2 className="text-2xl font-bold mb-2 flex items-center gap-2">
               <Eraser className="text-green-400" /> Edit & Enhance
             </h2>
             <p className="text-gray-400 text-sm">Modify images or upscale quality.</p>
           </div>
+          <div className="flex gap-1 bg-gray-800 p-1 rounded-lg">
+             <button
+               onClick={() => setIsBatch(false)}
+               className={`px-4 py-2 text-sm font-medium rounded-md transition ${!isBatch ? 'bg-gray-700 text-white shadow' : 'text-gray-400 hover:text-white'}`}
+             >
+               Single Image
+             </button>
+             <button
+               onClick={() => setIsBatch(true)}
+               className={`px-4 py-2 text-sm font-medium rounded-md transition ${isBatch ? 'bg-gray-700 text-white shadow' : 'text-gray-400 hover:text-white'}`}
+             >
+               Batch
+             </button>
+          </div>
+       </div>
 
+       {/* Both views stay mounted so a running batch keeps going while editing single images */}
+       <div className={isBatch ? '' : 'hidden'}>
+          <BatchEditor />
+       </div>
+
+       <div className={`flex flex-col md:flex-row gap-8 h-full ${isBatch ? 'hidden' : ''}`}>
+        {/* Controls */}
+        <div className="w-full md:w-1/3 flex flex-col gap-6">
           <div className="flex gap-2 bg-gray-800 p-1 rounded-lg">
              <button 
                onClick={() => setMode('edit')}
@@ -121,14 +227,17 @@ export const Editor: React.FC = () => {
               <select
                 value={aspectRatio}
                 onChange={(e) => setAspectRatio(e.target.value as ImageAspectRatio)}
-                className="w-full bg-gray-800 border border-gray-700 rounded-lg p-2 text-white focus:ring-2 focus:ring-green-500 outline-none"
+                disabled={mode === 'edit' && hasMask}
+                className="w-full bg-gray-800 border border-gray-700 rounded-lg p-2 text-white focus:ring-2 focus:ring-green-500 outline-none disabled:opacity-50"
               >
                 {Object.values(ImageAspectRatio).map((ratio) => (
                   <option key={ratio} value={ratio}>{ratio}</option>
                 ))}
               </select>
               <p className="text-xs text-gray-500 mt-1">
-                Note: Ensure the output ratio matches your intent.
+                {mode === 'edit' && hasMask
+                  ? 'Masked edits always keep the original image size.'
+                  : 'Note: Ensure the output ratio matches your intent.'}
               </p>
             </div>
 
@@ -142,6 +251,41 @@ export const Editor: React.FC = () => {
                   onChange={(e) => setPrompt(e.target.value)}
                 />
               </div>
+            )}
+            {mode === 'edit' && current && (
+              <div className="bg-gray-800/50 p-3 rounded-lg border border-gray-700 space-y-3">
+                <div className="flex justify-between items-center">
+                  <label className="text-sm font-medium text-gray-300">Mask (Optional)</label>
+                  <button
+                    onClick={clearMask}
+                    disabled={!hasMask}
+                    className="text-xs text-gray-400 hover:text-red-400 flex items-center gap-1 disabled:opacity-30"
+                  >
+                    <Trash2 className="w-3 h-3" /> Clear
+                  </button>
+                </div>
+                <div className="grid grid-cols-4 gap-1">
+                  {MASK_TOOLS.map(({ id, label, icon: Icon }) => (
+                    <button
+                      key={id}
+                      onClick={() => setMaskTool(id)}
+                      className={`py-2 rounded-md flex items-center justify-center transition ${maskTool === id ? 'bg-green-600 text-white' : 'bg-gray-900 text-gray-400 hover:text-white'}`}
+                      title={label}
+                    >
+                      <Icon className="w-4 h-4" />
+                    </button>
+                  ))}
+                </div>
+                {(maskTool === 'brush' || maskTool === 'eraser') && (
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs text-gray-400">Size</span>
+                    <input type="range" min={5} max={120} value={brushSize} onChange={(e) => setBrushSize(Number(e.target.value))} className="flex-1 accent-green-500" />
+                  </div>
+                )}
+                <p className="text-xs text-gray-500">
+                  {hasMask ? 'Only the painted region will change.' : 'Paint over the preview to limit the edit to one area.'}
+                </p>
+              </div>
             )}
              {mode === 'remaster' && (
                <div>
@@ -160,49 +304,144 @@ export const Editor: React.FC = () => {
 
             <button
               onClick={handleProcess}
-              disabled={loading || !selectedFile}
+              disabled={loading || !current}
               className="w-full bg-gradient-to-r from-green-600 to-teal-600 hover:from-green-500 hover:to-teal-500 text-white font-bold py-3 px-6 rounded-lg shadow-lg transform transition hover:scale-[1.02] disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
             >
               {loading ? <Loader2 className="animate-spin" /> : mode === 'edit' ? <Sparkles /> : <RefreshCcw />}
               {mode === 'edit' ? 'Apply Edits' : 'Upscale & Enhance'}
             </button>
+            {current && current.parentId && (
+              <p className="text-xs text-gray-500 text-center">
+                Applies to {getStepLabel(steps, current)}{redoTarget ? ' as a new branch' : ''}.
+              </p>
+            )}
           </div>
+
+          {steps.length > 1 && currentId && (
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2 flex items-center gap-2">
+                <History className="w-4 h-4 text-green-400" /> History
+              </label>
+              <div className="max-h-72 overflow-y-auto pr-1">
+                <EditTimeline steps={steps} currentId={currentId} onSelect={selectStep} />
+              </div>
+            </div>
+          )}
         </div>
 
          {/* Preview Area */}
          <div className="w-full md:w-2/3 flex flex-col gap-4">
+            {current && (
+              <div className="flex items-center justify-between">
+                <div className="flex gap-1">
+                  <button
+                    onClick={undo}
+                    disabled={loading || !current.parentId}
+                    className="p-2 rounded-lg bg-gray-800 hover:bg-gray-700 text-gray-300 disabled:opacity-30"
+                    title="Undo (Ctrl+Z)"
+                  >
+                    <Undo2 className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={redo}
+                    disabled={loading || !redoTarget}
+                    className="p-2 rounded-lg bg-gray-800 hover:bg-gray-700 text-gray-300 disabled:opacity-30"
+                    title="Redo (Ctrl+Shift+Z)"
+                  >
+                    <Redo2 className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={toggleCompare}
+                    disabled={loading || steps.length < 2}
+                    className={`px-3 py-2 rounded-lg text-sm flex items-center gap-2 disabled:opacity-30 ${compareIds ? 'bg-green-600 text-white' : 'bg-gray-800 hover:bg-gray-700 text-gray-300'}`}
+                  >
+                    <Columns2 className="w-4 h-4" /> Compare
+                  </button>
+                  <button
+                    onClick={() => setShowToolkit(true)}
+                    disabled={loading}
+                    className="px-3 py-2 rounded-lg text-sm flex items-center gap-2 bg-gray-800 hover:bg-gray-700 text-gray-300 disabled:opacity-30"
+                    title="Crop, resize, rotate and colour-correct locally"
+                  >
+                    <SlidersHorizontal className="w-4 h-4" /> Adjust
+                  </button>
+                </div>
+                {compareIds ? (
+                  <div className="flex items-center gap-2 text-sm">
+                    {[0, 1].map(side => (
+                      <select
+                        key={side}
+                        value={compareIds[side]}
+                        onChange={(e) => setCompareIds(prev => {
+                          const next = [...prev!] as [string, string];
+                          next[side] = e.target.value;
+                          return next;
+                        })}
+                        className="bg-gray-800 border border-gray-700 rounded-lg px-2 py-1.5 text-white outline-none"
+                      >
+                        {steps.map(s => <option key={s.id} value={s.id}>{getStepLabel(steps, s)}</option>)}
+                      </select>
+                    ))}
+                  </div>
+                ) : (
+                  <span className="text-sm text-gray-400">{getStepLabel(steps, current)}</span>
+                )}
+              </div>
+            )}
             <div className="flex-1 bg-gray-900 rounded-2xl border border-gray-800 p-4 flex items-center justify-center relative min-h-[300px]">
-               {/* Show Original if no result, or side-by-side if result? Let's show result if exists, else preview */}
-               {!result && !preview && (
+               {!current && (
                   <p className="text-gray-600">Upload an image to start</p>
                )}
-               {preview && !result && !loading && (
-                 <img src={preview} alt="Preview" className="max-h-full max-w-full rounded" />
+               {compareIds && (() => {
+                 const [before, after] = compareIds.map(id => steps.find(s => s.id === id)!);
+                 return (
+                   <CompareSlider
+                     beforeUrl={before.imageUrl}
+                     afterUrl={after.imageUrl}
+                     beforeLabel={getStepLabel(steps, before)}
+                     afterLabel={getStepLabel(steps, after)}
+                   />
+                 );
+               })()}
+               {/* Kept mounted during comparisons so the mask survives */}
+               {current && mode === 'edit' && (
+                 <div className={compareIds ? 'hidden' : ''}>
+                   <MaskCanvas imageUrl={current.imageUrl} tool={maskTool} brushSize={brushSize} canvasRef={maskCanvasRef} onChange={handleMaskChange} />
+                 </div>
+               )}
+               {current && mode === 'remaster' && !compareIds && (
+                 <img src={current.imageUrl} alt="Preview" className="max-h-[70vh] max-w-full rounded" />
                )}
                {loading && (
                   <div className="absolute inset-0 flex flex-col items-center justify-center bg-gray-900/80 z-10 rounded-2xl">
                      <Loader2 className="w-10 h-10 text-green-500 animate-spin mb-4" />
-                     <p className="text-green-400">Processing...</p>
-                     <p className="text-gray-500 text-xs mt-2">This might take a moment (2K upscale)</p>
+                     <CallStatusLine status={call.status} onCancel={call.cancel} className="text-green-400" />
+                     <p className="text-gray-500 text-xs mt-2">This might take a moment{mode === 'remaster' ? ` (${getSettings().imageSize} upscale)` : ''}</p>
                   </div>
                )}
-               {result && (
-                  <div className="relative group w-full h-full flex items-center justify-center">
-                    <img src={result} alt="Edited" className="max-h-full max-w-full rounded shadow-lg" />
-                     <div className="absolute bottom-4 right-4 flex gap-2">
-                        <a
-                          href={result}
-                          download="edited-image.png"
-                          className="bg-black/70 hover:bg-black text-white p-2 rounded-full backdrop-blur-md"
-                        >
-                          <Download className="w-5 h-5" />
-                        </a>
-                     </div>
-                  </div>
+               {current && current.parentId && !compareIds && (
+                 <div className="absolute bottom-4 right-4 flex gap-2 z-0">
+                    <button
+                      onClick={() => downloadMedia(current.imageUrl, 'edited-image', 'image')}
+                      className="bg-black/70 hover:bg-black text-white p-2 rounded-full backdrop-blur-md"
+                    >
+                      <Download className="w-5 h-5" />
+                    </button>
+                 </div>
                )}
             </div>
          </div>
        </div>
+
+       {showToolkit && current && (
+         <ImageToolkitModal
+           imageUrl={current.imageUrl}
+           fileName="edited-image"
+           applyLabel="Add as Step"
+           onApply={(url) => addStep(current.id, url, 'Local adjustments', 'adjust')}
+           onClose={() => setShowToolkit(false)}
+         />
+       )}
     </div>
   );
 };
\ No newline at end of file
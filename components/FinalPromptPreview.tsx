@@ -0,0 +1,33 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, Copy, ScrollText } from 'lucide-react';
+
+interface FinalPromptPreviewProps {
+  prompt: string;
+}
+
+// Shows the exact text the generator will send, after presets and character context are applied
+export const FinalPromptPreview: React.FC<FinalPromptPreviewProps> = ({ prompt }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  if (!prompt.trim()) return null;
+
+  return (
+    <div className="text-xs">
+      <button onClick={() => setIsOpen(!isOpen)} className="text-gray-400 hover:text-white flex items-center gap-1">
+        {isOpen ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+        <ScrollText className="w-3 h-3" /> Final prompt
+      </button>
+      {isOpen && (
+        <div className="mt-1 relative bg-gray-950 border border-gray-800 rounded-lg p-2 pr-7">
+          <pre className="whitespace-pre-wrap break-words font-mono text-gray-300 max-h-48 overflow-y-auto">{prompt}</pre>
+          <button
+            onClick={() => navigator.clipboard.writeText(prompt)}
+            className="absolute top-2 right-2 text-gray-500 hover:text-white"
+            title="Copy"
+          >
+            <Copy className="w-3 h-3" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
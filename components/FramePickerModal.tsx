@@ -0,0 +1,118 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { getAllMedia, getAllProjects } from '../services/storageService';
+import { blobToDataUrl } from '../services/mediaUtils';
+import { MediaLibraryItem, StoryboardProject } from '../types';
+import { Images, Clapperboard, Loader2, X } from 'lucide-react';
+
+interface FramePickerModalProps {
+  title: string;
+  onPick: (dataUrl: string) => void;
+  onClose: () => void;
+}
+
+type Tab = 'library' | 'storyboards';
+
+export const FramePickerModal: React.FC<FramePickerModalProps> = ({ title, onPick, onClose }) => {
+  const [tab, setTab] = useState<Tab>('library');
+  const [images, setImages] = useState<(MediaLibraryItem & { url: string })[] | null>(null);
+  const [projects, setProjects] = useState<StoryboardProject[] | null>(null);
+  const urls = useRef<string[]>([]);
+
+  useEffect(() => {
+    getAllMedia().then(items => {
+      const withUrls = items.filter(i => i.type === 'image').map(i => ({ ...i, url: URL.createObjectURL(i.blob) }));
+      urls.current = withUrls.map(i => i.url);
+      setImages(withUrls);
+    });
+    getAllProjects().then(loaded => setProjects(loaded.filter(p => p.panels.some(panel => panel.imageUrl))));
+    return () => urls.current.forEach(url => URL.revokeObjectURL(url));
+  }, []);
+
+  const pickLibraryItem = async (item: MediaLibraryItem) => {
+    onPick(await blobToDataUrl(item.blob));
+    onClose();
+  };
+
+  const pickPanel = (imageUrl: string) => {
+    onPick(imageUrl);
+    onClose();
+  };
+
+  const tabClass = (t: Tab) => `px-4 py-2 text-sm rounded-lg flex items-center gap-2 transition ${tab === t ? 'bg-pink-600 text-white' : 'text-gray-400 hover:text-white hover:bg-gray-800'}`;
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-gray-900 border border-gray-700 rounded-2xl w-full max-w-4xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh]" onClick={(e) => e.stopPropagation()}>
+        <div className="p-6 border-b border-gray-800 flex justify-between items-center bg-gradient-to-r from-pink-900/20 to-orange-900/20">
+          <h3 className="text-xl font-bold text-white flex items-center gap-2">
+            <Images className="text-pink-400" /> {title}
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="px-6 pt-4 flex gap-2">
+          <button onClick={() => setTab('library')} className={tabClass('library')}>
+            <Images className="w-4 h-4" /> Media History
+          </button>
+          <button onClick={() => setTab('storyboards')} className={tabClass('storyboards')}>
+            <Clapperboard className="w-4 h-4" /> Storyboard Panels
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto">
+          {tab === 'library' && (
+            images === null ? (
+              <Loader2 className="w-8 h-8 text-pink-400 animate-spin mx-auto" />
+            ) : images.length === 0 ? (
+              <p className="text-gray-500 text-center py-8">No images in the library yet.</p>
+            ) : (
+              <div className="grid grid-cols-3 md:grid-cols-5 gap-3">
+                {images.map(item => (
+                  <button
+                    key={item.id}
+                    onClick={() => pickLibraryItem(item)}
+                    className="aspect-square bg-gray-800 rounded-lg overflow-hidden border-2 border-transparent hover:border-pink-500 transition"
+                    title={item.prompt}
+                  >
+                    <img src={item.url} className="w-full h-full object-cover" />
+                  </button>
+                ))}
+              </div>
+            )
+          )}
+
+          {tab === 'storyboards' && (
+            projects === null ? (
+              <Loader2 className="w-8 h-8 text-pink-400 animate-spin mx-auto" />
+            ) : projects.length === 0 ? (
+              <p className="text-gray-500 text-center py-8">No storyboard panels with images yet.</p>
+            ) : (
+              <div className="space-y-6">
+                {projects.map(project => (
+                  <div key={project.id}>
+                    <h4 className="text-sm font-semibold text-gray-300 mb-2">{project.name}</h4>
+                    <div className="grid grid-cols-3 md:grid-cols-4 gap-3">
+                      {project.panels.map((panel, index) => panel.imageUrl && (
+                        <button
+                          key={panel.id}
+                          onClick={() => pickPanel(panel.imageUrl!)}
+                          className="relative aspect-video bg-gray-800 rounded-lg overflow-hidden border-2 border-transparent hover:border-pink-500 transition"
+                          title={panel.description}
+                        >
+                          <img src={panel.imageUrl} className="w-full h-full object-cover" />
+                          <span className="absolute top-1 left-1 bg-black/60 text-white text-[10px] px-1.5 py-0.5 rounded font-mono">SCENE {index + 1}</span>
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
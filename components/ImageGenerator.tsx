@@ -1,77 +1,222 @@
 
-import React, { useState, useEffect } from 'react';
-import { generateImage } from '../services/geminiService';
-import { getAllModels } from '../services/storageService';
-import { ImageAspectRatio, CustomModel, GeneratedMedia } from '../types';
-import { Loader2, Download, Wand2, Maximize2, User, Clock } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { generateImageVariations, isAbortError, MAX_VARIATIONS, MAX_REFS_PER_CHARACTER } from '../services/geminiService';
+import { getAllModels, getAllMedia, updateMediaItem, getAllPresets } from '../services/storageService';
+import { addToLibrary, toGeneratedMedia, urlToBlob, blobToDataUrl, downloadMedia } from '../services/mediaUtils';
+import { composePrompt } from '../services/promptPresets';
+import { getSettings } from '../services/settingsService';
+import { ImageAspectRatio, CustomModel, GeneratedMedia, PromptPreset, PresetSelection, SceneCharacter } from '../types';
+import { ImageToolkitModal } from './ImageToolkitModal';
+import { PresetPicker } from './PresetPicker';
+import { FinalPromptPreview } from './FinalPromptPreview';
+import { PromptEnhancer } from './PromptEnhancer';
+import { SceneComposer, SCENE_POSITIONS } from './SceneComposer';
+import { useCallStatus, CallStatusLine } from './CallStatus';
+import { Loader2, Download, Wand2, Maximize2, Clock, SlidersHorizontal, Star, Dice5, Images, LayoutGrid } from 'lucide-react';
+
+const MAX_CHARACTERS = 4;
 
 export const ImageGenerator: React.FC = () => {
   const [prompt, setPrompt] = useState('');
-  const [aspectRatio, setAspectRatio] = useState<ImageAspectRatio>(ImageAspectRatio.SQUARE);
+  const [aspectRatio, setAspectRatio] = useState<ImageAspectRatio>(() => getSettings().imageAspectRatio);
   const [highQuality, setHighQuality] = useState(false);
   const [loading, setLoading] = useState(false);
-  const [result, setResult] = useState<string | null>(null);
+  const [showToolkit, setShowToolkit] = useState(false);
+  const call = useCallStatus();
+
+  // Variations: the latest batch, and which one is open in the large view
+  const [variationCount, setVariationCount] = useState(1);
+  const [seed, setSeed] = useState(''); // Empty = random seed per run
+  const [results, setResults] = useState<GeneratedMedia[]>([]);
+  const [focusedId, setFocusedId] = useState<string | null>(null);
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
   
   // Custom Model Integration
   const [customModels, setCustomModels] = useState<CustomModel[]>([]);
-  const [selectedModelId, setSelectedModelId] = useState<string>('');
+  const [scene, setScene] = useState<SceneCharacter[]>([]);
+
+  // Style Presets
+  const [presets, setPresets] = useState<PromptPreset[]>([]);
+  const [presetSelection, setPresetSelection] = useState<PresetSelection | null>(null);
 
   // History State
   const [history, setHistory] = useState<GeneratedMedia[]>([]);
+  const restoredUrls = useRef<string[]>([]); // Object URLs made for restored items, released on unmount
+  const libraryWrites = useRef<Record<string, Promise<void>>>({}); // Pending saves, so a favorite toggle waits for its item to exist
 
   useEffect(() => {
     // 1. Load models
     getAllModels().then(models => {
-      setCustomModels(models.filter(m => m.consistencyContext && m.consistencyContext.length > 5));
+      setCustomModels(models.filter(m => (m.consistencyContext && m.consistencyContext.length > 5) || (m.referenceImages && m.referenceImages.length > 0)));
+    });
+
+    getAllPresets().then(setPresets);
+
+    // 2. Restore previous generations from the media library, after anything generated while it loaded
+    let unmounted = false;
+    getAllMedia().then(items => {
+      if (unmounted) return;
+      const loaded = items.filter(i => i.source === 'image_generator').map(toGeneratedMedia);
+      restoredUrls.current = loaded.map(item => item.url);
+      setHistory(prev => [...prev, ...loaded.filter(item => !prev.some(p => p.id === item.id))]);
     });
 
-    // 2. Check for auto-selection from Model Trainer
+    // 3. Check for auto-selection from Model Trainer
     const autoSelectId = localStorage.getItem('omni_active_model_id');
     const autoSelectType = localStorage.getItem('omni_active_model_type');
     
     if (autoSelectId && autoSelectType === 'image') {
-      setSelectedModelId(autoSelectId);
+      setScene([{ modelId: autoSelectId, position: 'auto', action: '' }]);
       localStorage.removeItem('omni_active_model_id');
       localStorage.removeItem('omni_active_model_type');
     }
+
+    return () => {
+      unmounted = true;
+      restoredUrls.current.forEach(url => URL.revokeObjectURL(url));
+    };
   }, []);
 
-  const handleGenerate = async () => {
-    if (!prompt) return;
+  const saveToLibrary = (item: GeneratedMedia, model?: CustomModel) => {
+    libraryWrites.current[item.id] = addToLibrary(item, 'image_generator', model);
+  };
+
+  const result = results.find(r => r.id === focusedId) || (results.length === 1 ? results[0] : undefined);
+  const cast = scene.flatMap(c => {
+    const model = customModels.find(m => m.id === c.modelId);
+    return model ? [{ ...c, model, refs: (model.referenceImages || []).slice(0, MAX_REFS_PER_CHARACTER) }] : [];
+  });
+  const castRefImages = cast.flatMap(c => c.refs);
+
+  // Preset style first, then the character wrapper around it
+  const buildFinalPrompt = (basePrompt: string, withReference = false) => {
+    const preset = presets.find(p => p.id === presetSelection?.presetId);
+    let finalPrompt = composePrompt(basePrompt, preset, presetSelection?.values);
+
+    // Character references are attached in cast order, so each one can point at its own images
+    if (cast.length > 0) {
+      let nextImage = 1;
+      const references = cast.map(({ model, refs, position, action }) => {
+        const first = nextImage;
+        nextImage += refs.length;
+        const images = refs.length === 0 ? '' : refs.length === 1 ? ` (reference image ${first})` : ` (reference images ${first}-${nextImage - 1})`;
+        const details = [
+          model.consistencyContext || 'see reference images',
+          SCENE_POSITIONS.find(p => p.id === position)?.phrase,
+          action.trim(),
+        ].filter(Boolean).join('; ');
+        return `- ${model.name}${images}: ${details}`;
+      }).join('\n');
+      finalPrompt = `Character References:\n${references}\n\nScene/Action: ${finalPrompt}\n\nInstruction: Ensure each character's visual details match their reference exactly${castRefImages.length > 0 ? ', using the attached reference images' : ''}, and place them as described.`;
+    }
+    if (withReference) {
+      finalPrompt += `\n\nInstruction: Create a new variation that closely follows the subject, composition and style of the ${castRefImages.length > 0 ? 'last attached' : 'attached'} image.`;
+    }
+    return finalPrompt;
+  };
+
+  const handleApplyPresetDefaults = (defaults: NonNullable<PromptPreset['defaults']>) => {
+    if (defaults.aspectRatio && (Object.values(ImageAspectRatio) as string[]).includes(defaults.aspectRatio)) {
+      setAspectRatio(defaults.aspectRatio as ImageAspectRatio);
+    }
+    if (defaults.highQuality !== undefined) setHighQuality(defaults.highQuality);
+  };
+
+  // Seeds are whole numbers from 0 up; anything else is refused rather than sent or stored
+  const parsedSeed = seed.trim() === '' ? undefined : Number(seed);
+  const isSeedValid = parsedSeed === undefined || (Number.isSafeInteger(parsedSeed) && parsedSeed >= 0);
+
+  // With a reference, this is "more like this": the chosen image's own prompt, with the image attached as guidance
+  const handleGenerate = async (reference?: GeneratedMedia) => {
+    const basePrompt = reference ? reference.prompt : prompt;
+    if (!basePrompt) return;
+    if (!isSeedValid) return alert('The seed must be a whole number of 0 or more.');
     setLoading(true);
-    setResult(null);
+    setResults([]);
+    setFocusedId(null);
     try {
-      let finalPrompt = prompt;
-      
-      // Apply Consistency Context if selected
-      if (selectedModelId) {
-        const model = customModels.find(m => m.id === selectedModelId);
-        if (model && model.consistencyContext) {
-          finalPrompt = `Character Reference: ${model.consistencyContext}. \n\nScene/Action: ${prompt} \n\nInstruction: Ensure the character's visual details match the reference exactly.`;
-        }
+      const refImages = [...castRefImages];
+      if (reference) {
+        refImages.push(await blobToDataUrl(await urlToBlob(reference.url)));
       }
 
-      const img = await generateImage(finalPrompt, aspectRatio, highQuality);
-      setResult(img);
+      const outputs = await generateImageVariations(
+        buildFinalPrompt(basePrompt, !!reference),
+        aspectRatio,
+        variationCount,
+        highQuality,
+        refImages,
+        parsedSeed,
+        call.begin(variationCount > 1 ? `Dreaming up ${variationCount} variations...` : 'Dreaming up your image...')
+      );
 
       // Add to history
-      const newItem: GeneratedMedia = {
-        id: Date.now().toString(),
+      const newItems: GeneratedMedia[] = outputs.map((output, i) => ({
+        id: `${Date.now()}-${i}`,
         type: 'image',
-        url: img,
-        prompt: prompt,
-        timestamp: Date.now()
-      };
-      setHistory(prev => [newItem, ...prev]);
+        url: output.url,
+        prompt: basePrompt,
+        timestamp: Date.now(),
+        seed: output.seed,
+      }));
+      setResults(newItems);
+      setHistory(prev => [...newItems, ...prev]);
+      // The library tracks one character per item, so tag the lead
+      newItems.forEach(item => saveToLibrary(item, cast[0]?.model));
+      if (outputs.length < variationCount) {
+        alert(`${variationCount - outputs.length} of ${variationCount} variations failed. Showing the rest.`);
+      }
 
     } catch (error) {
       console.error(error);
-      alert('Failed to generate image. Please try again.');
+      if (!isAbortError(error)) alert('Failed to generate image. Please try again.');
     } finally {
+      call.end();
       setLoading(false);
     }
   };
 
+  // Local adjustments are saved as a new generation so the original is kept
+  const handleApplyAdjustments = (url: string) => {
+    const newItem: GeneratedMedia = {
+      id: Date.now().toString(),
+      type: 'image',
+      url,
+      prompt: `${result?.prompt || prompt} (adjusted)`,
+      timestamp: Date.now()
+    };
+    setResults(prev => [...prev, newItem]);
+    setFocusedId(newItem.id);
+    setHistory(prev => [newItem, ...prev]);
+    saveToLibrary(newItem);
+  };
+
+  const toggleFavorite = async (item: GeneratedMedia) => {
+    const favorite = !item.favorite;
+    const apply = (list: GeneratedMedia[]) => list.map(m => m.id === item.id ? { ...m, favorite } : m);
+    setResults(apply);
+    setHistory(apply);
+    await libraryWrites.current[item.id];
+    updateMediaItem(item.id, { favorite });
+  };
+
+  const openFromHistory = (item: GeneratedMedia) => {
+    setResults([item]);
+    setFocusedId(item.id);
+  };
+
+  const renderFavoriteButton = (item: GeneratedMedia, size = 'w-4 h-4') => (
+    <button
+      onClick={(e) => { e.stopPropagation(); toggleFavorite(item); }}
+      className={`p-1.5 rounded-full bg-black/60 hover:bg-black ${item.favorite ? 'text-yellow-400' : 'text-white'}`}
+      title={item.favorite ? 'Remove from favorites' : 'Add to favorites'}
+    >
+      <Star className={size} fill={item.favorite ? 'currentColor' : 'none'} />
+    </button>
+  );
+
+  const visibleHistory = favoritesOnly ? history.filter(h => h.favorite) : history;
+
   return (
     <div className="flex flex-col h-full max-w-5xl mx-auto p-6 space-y-8">
       <div className="flex flex-col md:flex-row gap-8 h-full">
@@ -86,30 +231,9 @@ export const ImageGenerator: React.FC = () => {
 
           <div className="space-y-4">
             
-            {/* Persona Selector */}
+            {/* Cast & Scene Composer */}
             {customModels.length > 0 && (
-              <div className="bg-gray-800/50 p-3 rounded-lg border border-gray-700">
-                <label className="block text-sm font-medium text-gray-300 mb-2 flex items-center gap-2">
-                  <User className="w-4 h-4 text-purple-400" /> Apply Persona Style (Optional)
-                </label>
-                <div className="relative">
-                  <select 
-                    value={selectedModelId} 
-                    onChange={(e) => setSelectedModelId(e.target.value)}
-                    className="w-full bg-gray-900 border border-gray-600 rounded-lg p-2 pl-3 text-white focus:ring-2 focus:ring-purple-500 outline-none appearance-none"
-                  >
-                    <option value="">None (Pure Prompt)</option>
-                    {customModels.map(m => (
-                      <option key={m.id} value={m.id}>{m.name}</option>
-                    ))}
-                  </select>
-                </div>
-                {selectedModelId && (
-                   <p className="text-xs text-purple-300 mt-2">
-                     * Visual traits of <b>{customModels.find(m => m.id === selectedModelId)?.name}</b> will be applied.
-                   </p>
-                )}
-              </div>
+              <SceneComposer models={customModels} scene={scene} onChange={setScene} maxCharacters={MAX_CHARACTERS} />
             )}
 
             <div>
@@ -120,8 +244,21 @@ export const ImageGenerator: React.FC = () => {
                 value={prompt}
                 onChange={(e) => setPrompt(e.target.value)}
               />
+              <div className="mt-1 space-y-1">
+                <PromptEnhancer idea={prompt} target="image" onSelect={setPrompt} />
+                <FinalPromptPreview prompt={prompt ? buildFinalPrompt(prompt) : ''} />
+              </div>
             </div>
 
+            <PresetPicker
+              presets={presets}
+              target="image"
+              selection={presetSelection}
+              onChange={setPresetSelection}
+              onApplyDefaults={handleApplyPresetDefaults}
+              onPresetsChanged={() => getAllPresets().then(setPresets)}
+            />
+
             <div>
               <label className="block text-sm font-medium text-gray-300 mb-2">Aspect Ratio</label>
               <div className="grid grid-cols-3 gap-2">
@@ -144,7 +281,7 @@ export const ImageGenerator: React.FC = () => {
             <div className="flex items-center justify-between bg-gray-800 p-3 rounded-lg border border-gray-700">
               <div className="flex items-center gap-2">
                 <Maximize2 className="w-4 h-4 text-blue-400" />
-                <span className="text-sm font-medium text-gray-200">High Quality (Upscale)</span>
+                <span className="text-sm font-medium text-gray-200">High Quality ({getSettings().imageSize} Upscale)</span>
               </div>
               <label className="relative inline-flex items-center cursor-pointer">
                 <input
@@ -157,13 +294,55 @@ export const ImageGenerator: React.FC = () => {
               </label>
             </div>
 
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2 flex items-center gap-2">
+                  <Images className="w-4 h-4 text-purple-400" /> Variations
+                </label>
+                <select
+                  value={variationCount}
+                  onChange={(e) => setVariationCount(Number(e.target.value))}
+                  className="w-full bg-gray-800 border border-gray-700 rounded-lg p-2 text-white focus:ring-2 focus:ring-purple-500 outline-none"
+                >
+                  {Array.from({ length: MAX_VARIATIONS }, (_, i) => i + 1).map(n => (
+                    <option key={n} value={n}>{n}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">Seed</label>
+                <div className="flex gap-1">
+                  <input
+                    type="number"
+                    min={0}
+                    value={seed}
+                    onChange={(e) => setSeed(e.target.value)}
+                    placeholder="Random"
+                    className="w-full min-w-0 bg-gray-800 border border-gray-700 rounded-lg p-2 text-white focus:ring-2 focus:ring-purple-500 outline-none"
+                  />
+                  <button
+                    onClick={() => setSeed('')}
+                    className="px-2 bg-gray-800 border border-gray-700 rounded-lg text-gray-400 hover:text-white"
+                    title="Use a random seed"
+                  >
+                    <Dice5 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            </div>
+            {!isSeedValid ? (
+              <p className="text-xs text-red-400 -mt-2">The seed must be a whole number of 0 or more.</p>
+            ) : variationCount > 1 && parsedSeed !== undefined && (
+              <p className="text-xs text-gray-500 -mt-2">Variations use seeds {parsedSeed} to {parsedSeed + variationCount - 1}.</p>
+            )}
+
             <button
-              onClick={handleGenerate}
-              disabled={loading || !prompt}
+              onClick={() => handleGenerate()}
+              disabled={loading || !prompt || !isSeedValid}
               className="w-full bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-500 hover:to-blue-500 text-white font-bold py-3 px-6 rounded-lg shadow-lg transform transition hover:scale-[1.02] disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
             >
               {loading ? <Loader2 className="animate-spin" /> : <Wand2 />}
-              Generate
+              Generate{variationCount > 1 ? ` ${variationCount}` : ''}
             </button>
           </div>
         </div>
@@ -176,21 +355,68 @@ export const ImageGenerator: React.FC = () => {
                 <div className="absolute inset-0 border-4 border-purple-500/30 rounded-full"></div>
                 <div className="absolute inset-0 border-4 border-purple-500 border-t-transparent rounded-full animate-spin"></div>
               </div>
-              <p className="text-purple-300 animate-pulse">Dreaming up your image...</p>
+              <CallStatusLine status={call.status} onCancel={call.cancel} className="text-purple-300" />
             </div>
           ) : result ? (
             <div className="relative group w-full h-full flex items-center justify-center p-4">
-              <img src={result} alt="Generated" className="max-w-full max-h-full rounded-lg shadow-2xl" />
-              <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
-                <a
-                  href={result}
-                  download={`generated-${Date.now()}.png`}
+              <img src={result.url} alt="Generated" className="max-w-full max-h-full rounded-lg shadow-2xl" />
+              <div className="absolute top-6 right-6 z-10">{renderFavoriteButton(result, 'w-5 h-5')}</div>
+              {results.length > 1 && (
+                <button
+                  onClick={() => setFocusedId(null)}
+                  className="absolute top-6 left-6 z-10 bg-black/60 hover:bg-black text-white text-xs px-3 py-1.5 rounded-full flex items-center gap-1"
+                >
+                  <LayoutGrid className="w-3 h-3" /> All {results.length}
+                </button>
+              )}
+              {result.seed !== undefined && (
+                <button
+                  onClick={() => setSeed(String(result.seed))}
+                  className="absolute bottom-6 left-6 z-10 bg-black/60 hover:bg-black text-gray-300 text-xs px-2 py-1 rounded font-mono"
+                  title="Reuse this seed"
+                >
+                  seed {result.seed}
+                </button>
+              )}
+              <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-2">
+                <button
+                  onClick={() => handleGenerate(result)}
+                  className="bg-purple-600 text-white py-2 px-4 rounded-full font-bold flex items-center gap-2 hover:bg-purple-500"
+                >
+                  <Wand2 className="w-4 h-4" /> More Like This
+                </button>
+                <button
+                  onClick={() => setShowToolkit(true)}
+                  className="bg-gray-800 text-white py-2 px-4 rounded-full font-bold flex items-center gap-2 hover:bg-gray-700"
+                >
+                  <SlidersHorizontal className="w-4 h-4" /> Adjust
+                </button>
+                <button
+                  onClick={() => downloadMedia(result.url, `generated-${Date.now()}`, 'image')}
                   className="bg-white text-black py-2 px-4 rounded-full font-bold flex items-center gap-2 hover:bg-gray-200"
                 >
                   <Download className="w-4 h-4" /> Download
-                </a>
+                </button>
               </div>
             </div>
+          ) : results.length > 1 ? (
+            <div className={`grid gap-3 p-4 w-full ${results.length > 4 ? 'grid-cols-4' : 'grid-cols-2'}`}>
+              {results.map(item => (
+                <div key={item.id} className="group relative aspect-square bg-gray-800 rounded-lg overflow-hidden cursor-pointer" onClick={() => setFocusedId(item.id)}>
+                  <img src={item.url} alt="Variation" className="w-full h-full object-cover" />
+                  <div className="absolute top-1 right-1">{renderFavoriteButton(item, 'w-3 h-3')}</div>
+                  <div className="absolute inset-x-0 bottom-0 p-1 flex justify-between items-center bg-gradient-to-t from-black/80 to-transparent opacity-0 group-hover:opacity-100 transition-opacity">
+                    <span className="text-[10px] text-gray-300 font-mono">{item.seed !== undefined ? `seed ${item.seed}` : ''}</span>
+                    <button
+                      onClick={(e) => { e.stopPropagation(); handleGenerate(item); }}
+                      className="text-[10px] bg-purple-600 hover:bg-purple-500 text-white px-2 py-0.5 rounded-full"
+                    >
+                      More like this
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
           ) : (
             <div className="text-gray-600 flex flex-col items-center">
               <div className="w-20 h-20 bg-gray-800 rounded-full flex items-center justify-center mb-4">
@@ -205,13 +431,22 @@ export const ImageGenerator: React.FC = () => {
       {/* History Grid */}
       {history.length > 0 && (
         <div className="pt-8 border-t border-gray-800">
-           <h3 className="text-lg font-bold flex items-center gap-2 mb-4">
-             <Clock className="w-5 h-5 text-gray-400" /> Recent Generations
-           </h3>
+           <div className="flex justify-between items-center mb-4">
+             <h3 className="text-lg font-bold flex items-center gap-2">
+               <Clock className="w-5 h-5 text-gray-400" /> Recent Generations
+             </h3>
+             <button
+               onClick={() => setFavoritesOnly(!favoritesOnly)}
+               className={`text-sm px-3 py-1.5 rounded-lg flex items-center gap-2 transition ${favoritesOnly ? 'bg-yellow-500/20 text-yellow-300' : 'bg-gray-800 text-gray-400 hover:text-white'}`}
+             >
+               <Star className="w-4 h-4" fill={favoritesOnly ? 'currentColor' : 'none'} /> Favorites
+             </button>
+           </div>
            <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-5 gap-4">
-             {history.map((item) => (
-               <div key={item.id} className="group relative aspect-square bg-gray-800 rounded-lg overflow-hidden cursor-pointer" onClick={() => setResult(item.url)}>
+             {visibleHistory.map((item) => (
+               <div key={item.id} className="group relative aspect-square bg-gray-800 rounded-lg overflow-hidden cursor-pointer" onClick={() => openFromHistory(item)}>
                   <img src={item.url} alt="History" className="w-full h-full object-cover transition duration-300 group-hover:scale-110" />
+                  {item.favorite && <Star className="absolute top-2 right-2 w-4 h-4 text-yellow-400 z-10" fill="currentColor" />}
                   <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
                      <span className="text-xs text-white bg-black/50 px-2 py-1 rounded line-clamp-1 max-w-[90%]">{item.prompt}</span>
                   </div>
@@ -220,6 +455,16 @@ export const ImageGenerator: React.FC = () => {
            </div>
         </div>
       )}
+
+      {showToolkit && result && (
+        <ImageToolkitModal
+          imageUrl={result.url}
+          fileName={`generated-${Date.now()}`}
+          applyLabel="Save as New Image"
+          onApply={handleApplyAdjustments}
+          onClose={() => setShowToolkit(false)}
+        />
+      )}
     </div>
   );
 };
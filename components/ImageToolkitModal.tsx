@@ -0,0 +1,245 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { downloadBlob, loadImage } from '../services/mediaUtils';
+import {
+  DEFAULT_ADJUSTMENTS,
+  FORMAT_EXTENSIONS,
+  ExportFormat,
+  ImageAdjustments,
+  exportAdjusted,
+  getOutputSize,
+  renderAdjusted,
+} from '../services/imageToolkit';
+import { ImageAspectRatio } from '../types';
+import { SlidersHorizontal, RotateCcw, RotateCw, FlipHorizontal2, FlipVertical2, Download, Check, Loader2, X } from 'lucide-react';
+
+interface ImageToolkitModalProps {
+  imageUrl: string;
+  fileName?: string;
+  applyLabel?: string;
+  onApply?: (dataUrl: string) => void; // Receives a PNG of the adjusted image
+  onClose: () => void;
+}
+
+const PREVIEW_SIZE = 900;
+
+const FORMATS: { id: ExportFormat; label: string }[] = [
+  { id: 'image/png', label: 'PNG' },
+  { id: 'image/jpeg', label: 'JPEG' },
+  { id: 'image/webp', label: 'WebP' },
+];
+
+const COLOR_SLIDERS: { key: 'brightness' | 'contrast' | 'saturation'; label: string }[] = [
+  { key: 'brightness', label: 'Brightness' },
+  { key: 'contrast', label: 'Contrast' },
+  { key: 'saturation', label: 'Saturation' },
+];
+
+export const ImageToolkitModal: React.FC<ImageToolkitModalProps> = ({ imageUrl, fileName = 'image', applyLabel = 'Apply', onApply, onClose }) => {
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [adjustments, setAdjustments] = useState<ImageAdjustments>(DEFAULT_ADJUSTMENTS);
+  const [format, setFormat] = useState<ExportFormat>('image/png');
+  const [quality, setQuality] = useState(90);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const previewRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    loadImage(imageUrl).then(setImage).catch(e => {
+      console.error(e);
+      alert("Could not load the image.");
+      onClose();
+    });
+  }, [imageUrl]);
+
+  // Redraw the downscaled preview whenever a setting changes
+  useEffect(() => {
+    if (!image || !previewRef.current) return;
+    const canvas = renderAdjusted(image, adjustments, PREVIEW_SIZE);
+    canvas.className = 'max-w-full max-h-[60vh] rounded shadow-lg';
+    previewRef.current.replaceChildren(canvas);
+  }, [image, adjustments]);
+
+  const update = (updates: Partial<ImageAdjustments>) => setAdjustments(prev => ({ ...prev, ...updates }));
+
+  const rotate = (delta: number) => {
+    // Width is tied to the previous orientation, so fall back to natural size
+    update({ rotation: (((adjustments.rotation + delta) % 360 + 360) % 360) as ImageAdjustments['rotation'], width: undefined });
+  };
+
+  const output = image ? getOutputSize(image, adjustments) : null;
+
+  const handleDownload = async () => {
+    if (!image) return;
+    setIsExporting(true);
+    try {
+      const blob = await exportAdjusted(image, adjustments, format, quality / 100);
+      downloadBlob(blob, `${fileName}.${FORMAT_EXTENSIONS[format]}`);
+    } catch (e) {
+      console.error(e);
+      alert("Failed to export image.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleApply = () => {
+    if (!image || !onApply) return;
+    onApply(renderAdjusted(image, adjustments).toDataURL('image/png'));
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-gray-900 border border-gray-700 rounded-2xl w-full max-w-5xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh]" onClick={(e) => e.stopPropagation()}>
+        <div className="p-6 border-b border-gray-800 flex justify-between items-center bg-gradient-to-r from-sky-900/20 to-purple-900/20">
+          <h3 className="text-xl font-bold text-white flex items-center gap-2">
+            <SlidersHorizontal className="text-sky-400" /> Adjust Image
+            <span className="text-xs font-normal text-gray-500 ml-2">Runs locally, no API call</span>
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-col md:flex-row flex-1 overflow-hidden">
+          <div className="flex-1 bg-black/40 p-4 flex items-center justify-center min-h-[300px]">
+            {image ? <div ref={previewRef} className="flex items-center justify-center" /> : <Loader2 className="w-8 h-8 text-sky-400 animate-spin" />}
+          </div>
+
+          <div className="w-full md:w-80 p-5 space-y-5 overflow-y-auto border-l border-gray-800">
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-2">Crop</label>
+              <div className="grid grid-cols-3 gap-1">
+                {(['original', ...Object.values(ImageAspectRatio)] as ImageAdjustments['crop'][]).map(crop => (
+                  <button
+                    key={crop}
+                    onClick={() => update({ crop, width: undefined })}
+                    className={`py-1.5 text-xs rounded-md border transition ${adjustments.crop === crop ? 'bg-sky-600 border-sky-500 text-white' : 'bg-gray-800 border-gray-700 text-gray-400 hover:text-white'}`}
+                  >
+                    {crop === 'original' ? 'Original' : crop}
+                  </button>
+                ))}
+              </div>
+              {adjustments.crop !== 'original' && (
+                <input
+                  type="range" min={0} max={100} value={adjustments.cropPosition}
+                  onChange={(e) => update({ cropPosition: Number(e.target.value) })}
+                  className="w-full mt-2 accent-sky-500"
+                  title="Crop position"
+                />
+              )}
+            </div>
+
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-2">Rotate & Flip</label>
+              <div className="grid grid-cols-4 gap-1">
+                <button onClick={() => rotate(-90)} className="py-2 rounded-md bg-gray-800 text-gray-300 hover:text-white flex justify-center" title="Rotate left">
+                  <RotateCcw className="w-4 h-4" />
+                </button>
+                <button onClick={() => rotate(90)} className="py-2 rounded-md bg-gray-800 text-gray-300 hover:text-white flex justify-center" title="Rotate right">
+                  <RotateCw className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => update({ flipH: !adjustments.flipH })}
+                  className={`py-2 rounded-md flex justify-center ${adjustments.flipH ? 'bg-sky-600 text-white' : 'bg-gray-800 text-gray-300 hover:text-white'}`}
+                  title="Flip horizontally"
+                >
+                  <FlipHorizontal2 className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => update({ flipV: !adjustments.flipV })}
+                  className={`py-2 rounded-md flex justify-center ${adjustments.flipV ? 'bg-sky-600 text-white' : 'bg-gray-800 text-gray-300 hover:text-white'}`}
+                  title="Flip vertically"
+                >
+                  <FlipVertical2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-2">Resize (Width)</label>
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  min={16}
+                  max={8192}
+                  value={output?.width || ''}
+                  onChange={(e) => update({ width: Math.max(16, Math.min(8192, Number(e.target.value) || 16)) })}
+                  className="w-24 bg-gray-800 border border-gray-700 rounded-lg px-2 py-1.5 text-sm text-white outline-none"
+                />
+                <span className="text-xs text-gray-500">× {output?.height} px</span>
+                {adjustments.width && (
+                  <button onClick={() => update({ width: undefined })} className="text-xs text-sky-400 hover:text-sky-300 ml-auto">Reset</button>
+                )}
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              {COLOR_SLIDERS.map(({ key, label }) => (
+                <div key={key}>
+                  <div className="flex justify-between text-xs text-gray-400 mb-1">
+                    <span>{label}</span>
+                    <span>{adjustments[key]}%</span>
+                  </div>
+                  <input
+                    type="range" min={0} max={200} value={adjustments[key]}
+                    onChange={(e) => update({ [key]: Number(e.target.value) })}
+                    onDoubleClick={() => update({ [key]: 100 })}
+                    className="w-full accent-sky-500"
+                  />
+                </div>
+              ))}
+            </div>
+
+            <button onClick={() => setAdjustments(DEFAULT_ADJUSTMENTS)} className="text-xs text-gray-400 hover:text-white">
+              Reset all adjustments
+            </button>
+
+            <div className="pt-4 border-t border-gray-800 space-y-3">
+              <div className="grid grid-cols-3 gap-1">
+                {FORMATS.map(f => (
+                  <button
+                    key={f.id}
+                    onClick={() => setFormat(f.id)}
+                    className={`py-1.5 text-xs rounded-md border transition ${format === f.id ? 'bg-sky-600 border-sky-500 text-white' : 'bg-gray-800 border-gray-700 text-gray-400 hover:text-white'}`}
+                  >
+                    {f.label}
+                  </button>
+                ))}
+              </div>
+              {format !== 'image/png' && (
+                <div>
+                  <div className="flex justify-between text-xs text-gray-400 mb-1">
+                    <span>Quality</span>
+                    <span>{quality}</span>
+                  </div>
+                  <input type="range" min={10} max={100} value={quality} onChange={(e) => setQuality(Number(e.target.value))} className="w-full accent-sky-500" />
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-gray-800 flex justify-end gap-2">
+          <button
+            onClick={handleDownload}
+            disabled={!image || isExporting}
+            className="bg-gray-800 hover:bg-gray-700 text-white px-4 py-2 rounded-lg text-sm font-medium flex items-center gap-2 disabled:opacity-50"
+          >
+            {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+            Download {FORMAT_EXTENSIONS[format].toUpperCase()}
+          </button>
+          {onApply && (
+            <button
+              onClick={handleApply}
+              disabled={!image}
+              className="bg-sky-600 hover:bg-sky-500 text-white px-4 py-2 rounded-lg text-sm font-bold flex items-center gap-2 disabled:opacity-50"
+            >
+              <Check className="w-4 h-4" /> {applyLabel}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
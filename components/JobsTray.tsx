@@ -0,0 +1,155 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { subscribeToJobs, initJobManager, cancelJob, dismissJob, clearFinishedJobs } from '../services/jobManager';
+import { AppMode, GenerationJob, JobStatus } from '../types';
+import { ListTodo, Loader2, CheckCircle2, AlertCircle, Ban, X, Library, ChevronDown } from 'lucide-react';
+
+interface JobsTrayProps {
+  onModeChange: (mode: AppMode) => void;
+}
+
+interface Toast {
+  id: string;
+  job: GenerationJob;
+}
+
+const TOAST_MS = 6000;
+
+const STATUS_ICONS: Record<JobStatus, React.ReactNode> = {
+  running: <Loader2 className="w-4 h-4 text-pink-400 animate-spin" />,
+  succeeded: <CheckCircle2 className="w-4 h-4 text-green-400" />,
+  failed: <AlertCircle className="w-4 h-4 text-red-400" />,
+  cancelled: <Ban className="w-4 h-4 text-gray-500" />,
+};
+
+const formatElapsed = (ms: number) => {
+  const total = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
+export const JobsTray: React.FC<JobsTrayProps> = ({ onModeChange }) => {
+  const [jobs, setJobs] = useState<GenerationJob[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const [now, setNow] = useState(Date.now());
+  const lastStatus = useRef<Map<string, JobStatus> | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToJobs(next => {
+      // Toast on running -> finished; jobs that were already finished when first seen stay quiet
+      const previous = lastStatus.current;
+      if (previous) {
+        const finished = next.filter(j => previous.get(j.id) === 'running' && (j.status === 'succeeded' || j.status === 'failed'));
+        if (finished.length > 0) setToasts(prev => [...prev, ...finished.map(job => ({ id: `${job.id}-${job.status}`, job }))]);
+      }
+      lastStatus.current = new Map(next.map(j => [j.id, j.status]));
+      setJobs(next);
+    });
+    initJobManager();
+    return unsubscribe;
+  }, []);
+
+  const running = jobs.filter(j => j.status === 'running');
+
+  // Tick the elapsed timers only while something is running
+  useEffect(() => {
+    if (running.length === 0) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [running.length]);
+
+  useEffect(() => {
+    if (toasts.length === 0) return;
+    const timer = setTimeout(() => setToasts(prev => prev.slice(1)), TOAST_MS);
+    return () => clearTimeout(timer);
+  }, [toasts]);
+
+  const openLibrary = () => {
+    onModeChange(AppMode.LIBRARY);
+    setIsOpen(false);
+  };
+
+  if (jobs.length === 0 && toasts.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-30 flex flex-col items-end gap-2">
+      {toasts.map(({ id, job }) => (
+        <div key={id} className="bg-gray-900 border border-gray-700 rounded-xl shadow-2xl px-4 py-3 flex items-center gap-3 max-w-sm">
+          {STATUS_ICONS[job.status]}
+          <div className="min-w-0">
+            <p className="text-sm font-medium text-white">{job.status === 'succeeded' ? 'Video ready' : 'Video failed'}</p>
+            <p className="text-xs text-gray-400 truncate">{job.status === 'failed' && job.error ? job.error : job.title}</p>
+          </div>
+          {job.mediaId && (
+            <button onClick={openLibrary} className="text-xs text-indigo-300 hover:text-white whitespace-nowrap">View</button>
+          )}
+          <button onClick={() => setToasts(prev => prev.filter(t => t.id !== id))} className="text-gray-500 hover:text-white">
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      ))}
+
+      {isOpen && jobs.length > 0 && (
+        <div className="bg-gray-900 border border-gray-700 rounded-2xl shadow-2xl w-96 max-h-[60vh] flex flex-col overflow-hidden">
+          <div className="px-4 py-3 border-b border-gray-800 flex justify-between items-center">
+            <h3 className="text-sm font-bold text-white flex items-center gap-2">
+              <ListTodo className="w-4 h-4 text-pink-400" /> Generation Jobs
+            </h3>
+            <div className="flex items-center gap-3">
+              {jobs.length > running.length && (
+                <button onClick={clearFinishedJobs} className="text-xs text-gray-400 hover:text-white">Clear finished</button>
+              )}
+              <button onClick={() => setIsOpen(false)} className="text-gray-400 hover:text-white">
+                <ChevronDown className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+          <div className="overflow-y-auto divide-y divide-gray-800">
+            {jobs.map(job => (
+              <div key={job.id} className="px-4 py-3 flex items-center gap-3">
+                {STATUS_ICONS[job.status]}
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-gray-200 truncate" title={job.title}>{job.title}</p>
+                  <p className={`text-[11px] truncate ${job.status === 'failed' ? 'text-red-400' : 'text-gray-500'}`}>
+                    {job.status === 'failed' ? job.error : job.status} · {formatElapsed((job.finishedAt || now) - job.createdAt)}
+                  </p>
+                </div>
+                {job.status === 'running' ? (
+                  <button
+                    onClick={() => cancelJob(job.id)}
+                    className="text-xs text-gray-400 hover:text-red-400"
+                    title="Stop tracking this job. The render may still finish on the server."
+                  >
+                    Cancel
+                  </button>
+                ) : (
+                  <div className="flex items-center gap-2">
+                    {job.mediaId && (
+                      <button onClick={openLibrary} className="text-gray-400 hover:text-indigo-300" title="Saved to the Media Library">
+                        <Library className="w-4 h-4" />
+                      </button>
+                    )}
+                    <button onClick={() => dismissJob(job.id)} className="text-gray-500 hover:text-white" title="Dismiss">
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {jobs.length > 0 && (
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className={`rounded-full shadow-lg px-4 py-2 text-sm font-medium flex items-center gap-2 border transition ${
+            running.length > 0 ? 'bg-pink-600 hover:bg-pink-500 border-pink-500 text-white' : 'bg-gray-800 hover:bg-gray-700 border-gray-700 text-gray-300'
+          }`}
+        >
+          {running.length > 0 ? <Loader2 className="w-4 h-4 animate-spin" /> : <ListTodo className="w-4 h-4" />}
+          {running.length > 0 ? `${running.length} running` : 'Jobs'}
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,110 @@
+import React, { useRef } from 'react';
+
+export type MaskTool = 'brush' | 'eraser' | 'lasso' | 'rect';
+
+interface MaskCanvasProps {
+  imageUrl: string;
+  tool: MaskTool;
+  brushSize: number; // In screen pixels
+  canvasRef: React.RefObject<HTMLCanvasElement | null>;
+  onChange: () => void;
+}
+
+const MASK_COLOR = '#ef4444';
+
+// Mask is painted at the image's natural resolution and shown as a translucent overlay
+export const MaskCanvas: React.FC<MaskCanvasProps> = ({ imageUrl, tool, brushSize, canvasRef, onChange }) => {
+  const stroke = useRef<{ points: { x: number; y: number }[]; snapshot: ImageData } | null>(null);
+
+  const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    const canvas = canvasRef.current;
+    const img = e.currentTarget;
+    if (!canvas || (canvas.width === img.naturalWidth && canvas.height === img.naturalHeight)) return;
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    onChange();
+  };
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const scale = e.currentTarget.width / rect.width;
+    return { x: (e.clientX - rect.left) * scale, y: (e.clientY - rect.top) * scale, scale };
+  };
+
+  const drawSegment = (ctx: CanvasRenderingContext2D, from: { x: number; y: number }, to: { x: number; y: number }, width: number) => {
+    ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = MASK_COLOR;
+    ctx.lineWidth = width;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+    ctx.globalCompositeOperation = 'source-over';
+  };
+
+  const drawShape = (ctx: CanvasRenderingContext2D, points: { x: number; y: number }[], fill: boolean) => {
+    ctx.putImageData(stroke.current!.snapshot, 0, 0);
+    ctx.fillStyle = MASK_COLOR;
+    ctx.strokeStyle = MASK_COLOR;
+    ctx.lineWidth = 2;
+    if (tool === 'rect') {
+      const [start, end] = [points[0], points[points.length - 1]];
+      ctx.fillRect(Math.min(start.x, end.x), Math.min(start.y, end.y), Math.abs(end.x - start.x), Math.abs(end.y - start.y));
+      return;
+    }
+    ctx.beginPath();
+    points.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+    if (fill) {
+      ctx.closePath();
+      ctx.fill();
+    } else {
+      ctx.stroke();
+    }
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const ctx = canvas.getContext('2d')!;
+    canvas.setPointerCapture(e.pointerId);
+    const { x, y, scale } = toCanvasPoint(e);
+    stroke.current = { points: [{ x, y }], snapshot: ctx.getImageData(0, 0, canvas.width, canvas.height) };
+    if (tool === 'brush' || tool === 'eraser') drawSegment(ctx, { x, y }, { x, y }, brushSize * scale);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!stroke.current) return;
+    const ctx = e.currentTarget.getContext('2d')!;
+    const { x, y, scale } = toCanvasPoint(e);
+    const points = stroke.current.points;
+    if (tool === 'brush' || tool === 'eraser') {
+      drawSegment(ctx, points[points.length - 1], { x, y }, brushSize * scale);
+    }
+    points.push({ x, y });
+    if (tool === 'lasso' || tool === 'rect') drawShape(ctx, points, tool === 'rect');
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!stroke.current) return;
+    if (tool === 'lasso' && stroke.current.points.length > 2) {
+      drawShape(e.currentTarget.getContext('2d')!, stroke.current.points, true);
+    }
+    stroke.current = null;
+    onChange();
+  };
+
+  return (
+    <div className="relative inline-block max-h-full max-w-full">
+      <img src={imageUrl} alt="Preview" onLoad={handleImageLoad} className="block max-h-[70vh] max-w-full rounded select-none" draggable={false} />
+      <canvas
+        ref={canvasRef}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none rounded"
+      />
+    </div>
+  );
+};
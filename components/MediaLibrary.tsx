@@ -0,0 +1,221 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { getAllMedia, deleteMediaItemById } from '../services/storageService';
+import { downloadBlob, getExtensionForType } from '../services/mediaUtils';
+import { MediaLibraryItem, MediaSource } from '../types';
+import { Library, Loader2, Search, Trash2, Download, Video, X, User } from 'lucide-react';
+
+const SOURCE_LABELS: Record<MediaSource, string> = {
+  image_generator: 'Image Generator',
+  video_generator: 'Video Generator',
+  storyboard: 'Storyboard',
+};
+
+type TypeFilter = 'all' | 'image' | 'video';
+
+export const MediaLibrary: React.FC = () => {
+  const [items, setItems] = useState<MediaLibraryItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [typeFilter, setTypeFilter] = useState<TypeFilter>('all');
+  const [sourceFilter, setSourceFilter] = useState<MediaSource | ''>('');
+  const [modelFilter, setModelFilter] = useState('');
+  const [previewId, setPreviewId] = useState<string | null>(null);
+
+  useEffect(() => {
+    getAllMedia().then(loaded => {
+      setItems(loaded);
+      setIsLoading(false);
+    });
+  }, []);
+
+  // One object URL per stored blob, released when the view unmounts
+  const urlCache = useRef<Record<string, string>>({});
+  const getUrl = (item: MediaLibraryItem) => {
+    if (!urlCache.current[item.id]) urlCache.current[item.id] = URL.createObjectURL(item.blob);
+    return urlCache.current[item.id];
+  };
+
+  useEffect(() => {
+    const cache = urlCache.current;
+    return () => Object.keys(cache).forEach(id => URL.revokeObjectURL(cache[id]));
+  }, []);
+
+  // Characters that actually appear in the library
+  const characterOptions = useMemo(() => {
+    const seen = new Map<string, string>();
+    items.forEach(item => {
+      if (item.modelId) seen.set(item.modelId, item.modelName || 'Unnamed Character');
+    });
+    return Array.from(seen.entries());
+  }, [items]);
+
+  const filteredItems = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return items.filter(item => {
+      if (typeFilter !== 'all' && item.type !== typeFilter) return false;
+      if (sourceFilter && item.source !== sourceFilter) return false;
+      if (modelFilter && item.modelId !== modelFilter) return false;
+      if (!query) return true;
+      return item.prompt.toLowerCase().includes(query) || (item.modelName || '').toLowerCase().includes(query);
+    });
+  }, [items, search, typeFilter, sourceFilter, modelFilter]);
+
+  const handleDelete = async (id: string) => {
+    if (!window.confirm("Delete this item from the library?")) return;
+    await deleteMediaItemById(id);
+    setItems(prev => prev.filter(i => i.id !== id));
+    if (previewId === id) setPreviewId(null);
+  };
+
+  const previewItem = items.find(i => i.id === previewId);
+
+  if (isLoading) return (
+    <div className="flex flex-col h-full items-center justify-center text-gray-500 gap-4">
+      <Loader2 className="w-10 h-10 text-indigo-500 animate-spin" />
+      <p>Loading Library...</p>
+    </div>
+  );
+
+  return (
+    <div className="max-w-7xl mx-auto p-6 space-y-8">
+      <div>
+        <h2 className="text-2xl font-bold mb-2 flex items-center gap-2">
+          <Library className="text-indigo-400" /> Media Library
+        </h2>
+        <p className="text-gray-400 text-sm">Everything you have generated, saved across sessions.</p>
+      </div>
+
+      {/* Search & Filters */}
+      <div className="flex flex-col md:flex-row gap-3">
+        <div className="relative flex-1">
+          <Search className="w-4 h-4 text-gray-500 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="w-full bg-gray-800 border border-gray-700 rounded-lg p-2 pl-9 text-white focus:ring-2 focus:ring-indigo-500 outline-none"
+            placeholder="Search prompts or characters..."
+          />
+        </div>
+        <div className="flex gap-1 bg-gray-800 p-1 rounded-lg">
+          {(['all', 'image', 'video'] as TypeFilter[]).map(t => (
+            <button
+              key={t}
+              onClick={() => setTypeFilter(t)}
+              className={`px-3 py-1 text-sm rounded-md capitalize transition ${typeFilter === t ? 'bg-gray-700 text-white shadow' : 'text-gray-400 hover:text-white'}`}
+            >
+              {t}
+            </button>
+          ))}
+        </div>
+        <select
+          value={sourceFilter}
+          onChange={(e) => setSourceFilter(e.target.value as MediaSource | '')}
+          className="bg-gray-800 border border-gray-700 rounded-lg p-2 text-white focus:ring-2 focus:ring-indigo-500 outline-none"
+        >
+          <option value="">All Tools</option>
+          {(Object.keys(SOURCE_LABELS) as MediaSource[]).map(source => (
+            <option key={source} value={source}>{SOURCE_LABELS[source]}</option>
+          ))}
+        </select>
+        {characterOptions.length > 0 && (
+          <select
+            value={modelFilter}
+            onChange={(e) => setModelFilter(e.target.value)}
+            className="bg-gray-800 border border-gray-700 rounded-lg p-2 text-white focus:ring-2 focus:ring-indigo-500 outline-none"
+          >
+            <option value="">All Characters</option>
+            {characterOptions.map(([id, name]) => (
+              <option key={id} value={id}>{name}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {/* Grid */}
+      {filteredItems.length === 0 ? (
+        <div className="text-gray-600 flex flex-col items-center py-20">
+          <div className="w-20 h-20 bg-gray-800 rounded-full flex items-center justify-center mb-4">
+            <Library className="w-10 h-10 opacity-20" />
+          </div>
+          <p>{items.length === 0 ? "Nothing generated yet" : "No items match your filters"}</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4">
+          {filteredItems.map(item => (
+            <div key={item.id} className="group relative aspect-square bg-gray-800 rounded-lg overflow-hidden cursor-pointer border border-gray-700 hover:border-gray-500" onClick={() => setPreviewId(item.id)}>
+              {item.type === 'video' ? (
+                <>
+                  <video src={getUrl(item)} className="w-full h-full object-cover opacity-80 group-hover:opacity-100 transition" />
+                  <div className="absolute top-2 left-2 bg-black/50 p-1.5 rounded-full backdrop-blur-sm pointer-events-none">
+                    <Video className="w-3 h-3 text-white" />
+                  </div>
+                </>
+              ) : (
+                <img src={getUrl(item)} alt={item.prompt} className="w-full h-full object-cover transition duration-300 group-hover:scale-110" />
+              )}
+              <button
+                onClick={(e) => { e.stopPropagation(); handleDelete(item.id); }}
+                className="absolute top-2 right-2 bg-black/60 p-1.5 rounded-full text-white opacity-0 group-hover:opacity-100 hover:bg-red-500 transition"
+                title="Delete"
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+              <div className="absolute bottom-0 left-0 right-0 p-2 bg-gradient-to-t from-black/80 to-transparent">
+                <p className="text-xs text-white line-clamp-1">{item.prompt}</p>
+                <p className="text-[10px] text-gray-400 line-clamp-1">
+                  {SOURCE_LABELS[item.source]}{item.modelName ? ` · ${item.modelName}` : ''}
+                </p>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Preview Modal */}
+      {previewItem && (
+        <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={() => setPreviewId(null)}>
+          <div className="bg-gray-900 border border-gray-700 rounded-2xl w-full max-w-4xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh]" onClick={(e) => e.stopPropagation()}>
+            <div className="p-4 border-b border-gray-800 flex justify-between items-center">
+              <div className="text-xs text-gray-400 flex items-center gap-3">
+                <span>{SOURCE_LABELS[previewItem.source]}</span>
+                {previewItem.modelName && (
+                  <span className="flex items-center gap-1 text-indigo-300"><User className="w-3 h-3" /> {previewItem.modelName}</span>
+                )}
+                <span>{new Date(previewItem.timestamp).toLocaleString()}</span>
+                {previewItem.seed !== undefined && <span className="font-mono">seed {previewItem.seed}</span>}
+              </div>
+              <button onClick={() => setPreviewId(null)} className="text-gray-400 hover:text-white">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="flex-1 bg-black flex items-center justify-center p-4 min-h-0">
+              {previewItem.type === 'video' ? (
+                <video src={getUrl(previewItem)} controls autoPlay loop className="max-w-full max-h-[60vh] rounded-lg" />
+              ) : (
+                <img src={getUrl(previewItem)} alt={previewItem.prompt} className="max-w-full max-h-[60vh] rounded-lg" />
+              )}
+            </div>
+            <div className="p-4 border-t border-gray-800 flex items-start gap-4">
+              <p className="flex-1 text-sm text-gray-300">{previewItem.prompt}</p>
+              <button
+                onClick={() => downloadBlob(
+                  previewItem.blob,
+                  `${previewItem.type}-${previewItem.id}.${getExtensionForType(previewItem.blob.type, previewItem.type === 'video' ? 'mp4' : 'png')}`
+                )}
+                className="bg-gray-800 hover:bg-gray-700 text-white py-2 px-4 rounded-lg text-sm font-medium flex items-center gap-2 transition"
+              >
+                <Download className="w-4 h-4" /> Download
+              </button>
+              <button
+                onClick={() => handleDelete(previewItem.id)}
+                className="bg-red-600/20 hover:bg-red-600 text-red-300 hover:text-white py-2 px-4 rounded-lg text-sm font-medium flex items-center gap-2 transition"
+              >
+                <Trash2 className="w-4 h-4" /> Delete
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,8 +1,13 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 import { CustomModel, ImageAspectRatio, AppMode } from '../types';
-import { generateImage, autoTrainCharacter } from '../services/geminiService';
-import { getAllModels, saveModel, deleteModelById } from '../services/storageService';
+import { generateImage, autoTrainCharacter, analyzeCharacterReferences } from '../services/geminiService';
+import { getAllModels, saveModel, deleteModelById, deleteThreadsForModel } from '../services/storageService';
+import { CharacterChat } from './CharacterChat';
+import { TrainingEditor } from './TrainingEditor';
+import { ContextDiffModal } from './ContextDiffModal';
+import { CharacterImportModal } from './CharacterImportModal';
+import { downloadCharacterBundle, parseCharacterBundle } from '../services/bundleService';
 import { 
   BrainCircuit, 
   Plus, 
@@ -20,7 +25,13 @@ import {
   LayoutTemplate,
   Camera,
   ScanFace,
-  Save
+  Save,
+  MessageSquare,
+  BookOpen,
+  Download,
+  FileUp,
+  CheckSquare,
+  Square
 } from 'lucide-react';
 
 interface ModelTrainerProps {
@@ -34,14 +45,26 @@ export const ModelTrainer: React.FC<ModelTrainerProps> = ({ onModeChange }) => {
   const [isLoadingDB, setIsLoadingDB] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [saveSuccess, setSaveSuccess] = useState(false);
+  const [editorTab, setEditorTab] = useState<'profile' | 'training' | 'chat'>('profile');
   
   // Auto-Train / Wizard State
   const [showWizard, setShowWizard] = useState(false);
   const [wizardName, setWizardName] = useState('');
   const [wizardDesc, setWizardDesc] = useState('');
+  const [wizardVisual, setWizardVisual] = useState('');
   const [wizardFiles, setWizardFiles] = useState<File[]>([]); 
 
+  // Reference Extraction State (shared by the editor and the wizard)
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [pendingExtraction, setPendingExtraction] = useState<{ target: 'editor' | 'wizard'; current: string; proposed: string } | null>(null);
+
+  // Bundle Import / Export State
+  const [isSelectingForExport, setIsSelectingForExport] = useState(false);
+  const [exportSelection, setExportSelection] = useState<string[]>([]);
+  const [pendingImport, setPendingImport] = useState<CustomModel[] | null>(null);
+
   const avatarInputRef = useRef<HTMLInputElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
   const referenceInputRef = useRef<HTMLInputElement>(null);
   const wizardFileRef = useRef<HTMLInputElement>(null);
 
@@ -85,6 +108,7 @@ export const ModelTrainer: React.FC<ModelTrainerProps> = ({ onModeChange }) => {
   const deleteModel = async (id: string) => {
     if (!window.confirm("Are you sure you want to delete this character?")) return;
     await deleteModelById(id);
+    await deleteThreadsForModel(id);
     setModels(prev => prev.filter(m => m.id !== id));
     if (selectedModelId === id) setSelectedModelId(null);
   };
@@ -164,6 +188,84 @@ export const ModelTrainer: React.FC<ModelTrainerProps> = ({ onModeChange }) => {
     updateSelectedModel({ referenceImages: newRefs });
   };
 
+  // --- Reference Extraction Logic ---
+  const extractFromReferences = async (target: 'editor' | 'wizard', base64Images: string[], current: string) => {
+    if (base64Images.length === 0) return;
+    setIsExtracting(true);
+    try {
+      const proposed = await analyzeCharacterReferences(base64Images);
+      // Nothing to compare against: take the extraction directly
+      if (!current.trim()) applyExtraction(target, proposed);
+      else setPendingExtraction({ target, current, proposed });
+    } catch (e) {
+      console.error(e);
+      alert("Failed to analyze reference images.");
+    } finally {
+      setIsExtracting(false);
+    }
+  };
+
+  const applyExtraction = (target: 'editor' | 'wizard', text: string) => {
+    if (target === 'editor') updateSelectedModel({ consistencyContext: text });
+    else setWizardVisual(text);
+    setPendingExtraction(null);
+  };
+
+  const handleExtractForModel = () => {
+    const model = getSelectedModel();
+    if (!model) return;
+    extractFromReferences('editor', model.referenceImages || [], model.consistencyContext || '');
+  };
+
+  const handleExtractForWizard = async () => {
+    const base64Images = await Promise.all(wizardFiles.map(fileToBase64));
+    extractFromReferences('wizard', base64Images, wizardVisual);
+  };
+
+  const renderExtractionDiff = () => pendingExtraction && (
+    <ContextDiffModal
+      current={pendingExtraction.current}
+      proposed={pendingExtraction.proposed}
+      onApply={(text) => applyExtraction(pendingExtraction.target, text)}
+      onClose={() => setPendingExtraction(null)}
+    />
+  );
+
+  // --- Bundle Import / Export Logic ---
+  const toggleExportSelection = (id: string) => {
+    setExportSelection(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+  };
+
+  const cancelExportSelection = () => {
+    setIsSelectingForExport(false);
+    setExportSelection([]);
+  };
+
+  const handleExportSelected = () => {
+    const selected = models.filter(m => exportSelection.includes(m.id));
+    if (selected.length === 0) return;
+    downloadCharacterBundle(selected);
+    cancelExportSelection();
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setPendingImport(parseCharacterBundle(await file.text()));
+    } catch (err: any) {
+      alert(`Import failed: ${err?.message || err}`);
+    }
+  };
+
+  const handleConfirmImport = async (toImport: CustomModel[]) => {
+    await Promise.all(toImport.map(saveModel));
+    const importedIds = new Set(toImport.map(m => m.id));
+    setModels(prev => [...prev.filter(m => !importedIds.has(m.id)), ...toImport]);
+    setPendingImport(null);
+  };
+
   // --- Wizard Logic ---
   const handleRunAutoTrain = async () => {
     if (!wizardName || !wizardDesc) return;
@@ -175,10 +277,10 @@ export const ModelTrainer: React.FC<ModelTrainerProps> = ({ onModeChange }) => {
         base64Images = await Promise.all(wizardFiles.map(fileToBase64));
       }
       
-      const profile = await autoTrainCharacter(wizardName, wizardDesc, ""); 
+      const profile = await autoTrainCharacter(wizardName, wizardDesc, wizardVisual);
       
       let avatarData = "👤";
-      if (base64Images.length > 0) avatarData = `data:image/png;base64,${base64Images[0]}`;
+      if (base64Images.length > 0) avatarData = `data:${wizardFiles[0].type || 'image/png'};base64,${base64Images[0]}`;
       else {
         try {
           avatarData = await generateImage(`Icon for character ${wizardName}. ${profile.consistencyContext}. Minimalist vector icon.`, ImageAspectRatio.SQUARE, false);
@@ -190,9 +292,9 @@ export const ModelTrainer: React.FC<ModelTrainerProps> = ({ onModeChange }) => {
         name: wizardName,
         avatar: avatarData,
         type: "chat",
-        systemInstruction: "", 
-        consistencyContext: profile.consistencyContext,
-        examples: [],
+        systemInstruction: profile.systemInstruction,
+        consistencyContext: wizardVisual.trim() || profile.consistencyContext,
+        examples: profile.examples,
         referenceImages: base64Images.length > 0 ? base64Images : [], // Store wizard images as refs
         lastModified: Date.now(),
       };
@@ -200,14 +302,14 @@ export const ModelTrainer: React.FC<ModelTrainerProps> = ({ onModeChange }) => {
       setModels(prev => [...prev, newModel]);
       setSelectedModelId(newModel.id);
       setShowWizard(false);
-      setWizardName(''); setWizardDesc(''); setWizardFiles([]);
+      setWizardName(''); setWizardDesc(''); setWizardVisual(''); setWizardFiles([]);
     } catch (e) { alert("Auto-train failed"); } 
     finally { setIsAutoTraining(false); }
   };
 
   const handleWizardFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
-      setWizardFiles(prev => [...prev, ...Array.from(e.target.files!)].slice(0, 1)); // Only 1 needed for avatar in wizard now
+      setWizardFiles(prev => [...prev, ...Array.from(e.target.files!)].slice(0, 4)); // First image doubles as the avatar
     }
   };
 
@@ -237,12 +339,51 @@ export const ModelTrainer: React.FC<ModelTrainerProps> = ({ onModeChange }) => {
              </h2>
              <p className="text-gray-400 mt-1">Manage and use your custom AI personas.</p>
            </div>
-           <button 
-             onClick={() => setShowWizard(true)}
-             className="bg-gradient-to-r from-yellow-600 to-orange-600 hover:from-yellow-500 hover:to-orange-500 text-white px-6 py-3 rounded-xl flex items-center gap-2 shadow-lg transition transform hover:scale-105"
-           >
-             <Zap className="w-5 h-5" /> Magic Create
-           </button>
+           <div className="flex gap-2">
+             {isSelectingForExport ? (
+               <>
+                 <button onClick={cancelExportSelection} className="px-4 py-3 rounded-xl text-gray-400 hover:text-white transition">
+                   Cancel
+                 </button>
+                 <button
+                   onClick={() => setExportSelection(exportSelection.length === models.length ? [] : models.map(m => m.id))}
+                   className="bg-gray-800 hover:bg-gray-700 text-gray-200 px-4 py-3 rounded-xl transition"
+                 >
+                   {exportSelection.length === models.length ? 'Select None' : 'Select All'}
+                 </button>
+                 <button
+                   onClick={handleExportSelected}
+                   disabled={exportSelection.length === 0}
+                   className="bg-blue-600 hover:bg-blue-500 text-white px-4 py-3 rounded-xl flex items-center gap-2 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                 >
+                   <Download className="w-5 h-5" /> Export {exportSelection.length}
+                 </button>
+               </>
+             ) : (
+               <>
+                 <button
+                   onClick={() => importInputRef.current?.click()}
+                   className="bg-gray-800 hover:bg-gray-700 text-gray-200 px-4 py-3 rounded-xl flex items-center gap-2 transition"
+                 >
+                   <FileUp className="w-5 h-5" /> Import
+                   <input ref={importInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImportFile} />
+                 </button>
+                 <button
+                   onClick={() => setIsSelectingForExport(true)}
+                   disabled={models.length === 0}
+                   className="bg-gray-800 hover:bg-gray-700 text-gray-200 px-4 py-3 rounded-xl flex items-center gap-2 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                 >
+                   <Download className="w-5 h-5" /> Export
+                 </button>
+                 <button 
+                   onClick={() => setShowWizard(true)}
+                   className="bg-gradient-to-r from-yellow-600 to-orange-600 hover:from-yellow-500 hover:to-orange-500 text-white px-6 py-3 rounded-xl flex items-center gap-2 shadow-lg transition transform hover:scale-105"
+                 >
+                   <Zap className="w-5 h-5" /> Magic Create
+                 </button>
+               </>
+             )}
+           </div>
         </div>
 
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
@@ -260,8 +401,18 @@ export const ModelTrainer: React.FC<ModelTrainerProps> = ({ onModeChange }) => {
 
            {/* Model Cards */}
            {models.map(model => (
-             <div key={model.id} className="bg-gray-800 rounded-2xl overflow-hidden border border-gray-700 hover:border-gray-500 transition shadow-lg flex flex-col">
-                <div className="aspect-square bg-gray-700 relative group cursor-pointer" onClick={() => setSelectedModelId(model.id)}>
+             <div key={model.id} className={`bg-gray-800 rounded-2xl overflow-hidden border transition shadow-lg flex flex-col ${
+               isSelectingForExport && exportSelection.includes(model.id) ? 'border-blue-500' : 'border-gray-700 hover:border-gray-500'
+             }`}>
+                <div
+                  className="aspect-square bg-gray-700 relative group cursor-pointer"
+                  onClick={() => isSelectingForExport ? toggleExportSelection(model.id) : setSelectedModelId(model.id)}
+                >
+                   {isSelectingForExport && (
+                     <div className="absolute top-3 left-3 z-10 text-white drop-shadow">
+                       {exportSelection.includes(model.id) ? <CheckSquare className="w-6 h-6 text-blue-400" /> : <Square className="w-6 h-6" />}
+                     </div>
+                   )}
                    {model.avatar?.startsWith('data:') ? (
                      <img src={model.avatar} className="w-full h-full object-cover transition duration-500 group-hover:scale-110" />
                    ) : (
@@ -331,7 +482,7 @@ export const ModelTrainer: React.FC<ModelTrainerProps> = ({ onModeChange }) => {
                        <textarea value={wizardDesc} onChange={(e) => setWizardDesc(e.target.value)} className="w-full h-24 bg-gray-800 border border-gray-700 rounded-lg p-3 text-white focus:ring-2 focus:ring-yellow-500 outline-none resize-none" placeholder="Who are they? e.g. A cybernetic samurai with a glowing katana." />
                     </div>
                     <div>
-                      <label className="block text-sm font-medium text-gray-300 mb-2">Profile Image (Optional)</label>
+                      <label className="block text-sm font-medium text-gray-300 mb-2">Reference Images (Optional)</label>
                       <div className="flex gap-2">
                         {wizardFiles.map((f, i) => (
                           <div key={i} className="relative w-16 h-16 rounded-lg overflow-hidden border border-gray-600 bg-gray-800">
@@ -341,13 +492,28 @@ export const ModelTrainer: React.FC<ModelTrainerProps> = ({ onModeChange }) => {
                              </button>
                           </div>
                         ))}
-                        {wizardFiles.length < 1 && (
+                        {wizardFiles.length < 4 && (
                           <div onClick={() => wizardFileRef.current?.click()} className="w-16 h-16 rounded-lg border-2 border-dashed border-gray-600 hover:border-yellow-500 flex flex-col items-center justify-center cursor-pointer text-gray-500 hover:text-yellow-400 transition">
                              <Upload className="w-4 h-4" />
-                             <input ref={wizardFileRef} type="file" accept="image/*" className="hidden" onChange={handleWizardFileChange} />
+                             <input ref={wizardFileRef} type="file" multiple accept="image/*" className="hidden" onChange={handleWizardFileChange} />
                           </div>
                         )}
                       </div>
+                      <p className="text-xs text-gray-500 mt-2">The first image becomes the profile picture.</p>
+                    </div>
+                    <div>
+                       <div className="flex justify-between items-center mb-2">
+                         <label className="block text-sm font-medium text-gray-300">Visual Description (Optional)</label>
+                         <button
+                           onClick={handleExtractForWizard}
+                           disabled={isExtracting || wizardFiles.length === 0}
+                           className="text-xs text-cyan-300 hover:text-cyan-200 flex items-center gap-1 disabled:opacity-40 disabled:cursor-not-allowed"
+                         >
+                           {isExtracting ? <Loader2 className="w-3 h-3 animate-spin" /> : <ScanFace className="w-3 h-3" />}
+                           Extract from references
+                         </button>
+                       </div>
+                       <textarea value={wizardVisual} onChange={(e) => setWizardVisual(e.target.value)} className="w-full h-20 bg-gray-800 border border-gray-700 rounded-lg p-3 text-white text-sm focus:ring-2 focus:ring-yellow-500 outline-none resize-none" placeholder="Leave empty to let the wizard invent the look." />
                     </div>
                     <button onClick={handleRunAutoTrain} disabled={!wizardName || !wizardDesc} className="w-full bg-gradient-to-r from-yellow-600 to-orange-600 hover:from-yellow-500 hover:to-orange-500 text-white font-bold py-4 rounded-xl shadow-lg flex items-center justify-center gap-2">
                       <Wand2 className="w-5 h-5" /> Auto-Create Profile
@@ -358,6 +524,15 @@ export const ModelTrainer: React.FC<ModelTrainerProps> = ({ onModeChange }) => {
            </div>
         </div>
       )}
+      {renderExtractionDiff()}
+      {pendingImport && (
+        <CharacterImportModal
+          incoming={pendingImport}
+          existing={models}
+          onImport={handleConfirmImport}
+          onClose={() => setPendingImport(null)}
+        />
+      )}
       </div>
     );
   }
@@ -383,6 +558,13 @@ export const ModelTrainer: React.FC<ModelTrainerProps> = ({ onModeChange }) => {
                {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
                {saveSuccess ? "Saved!" : "Save Changes"}
              </button>
+             <button 
+               onClick={() => downloadCharacterBundle([currentModel])}
+               className="bg-gray-800 hover:bg-gray-700 text-gray-300 hover:text-white px-4 py-2 rounded-lg text-sm font-medium transition flex items-center gap-2"
+               title="Export as bundle file"
+             >
+               <Download className="w-4 h-4" /> Export
+             </button>
              <button 
                onClick={() => handleUseModel(currentModel.id, 'image')}
                className="bg-purple-600/20 hover:bg-purple-600 text-purple-300 hover:text-white px-4 py-2 rounded-lg text-sm font-medium transition flex items-center gap-2"
@@ -399,12 +581,32 @@ export const ModelTrainer: React.FC<ModelTrainerProps> = ({ onModeChange }) => {
       </div>
 
       <div className="bg-gray-900 rounded-2xl border border-gray-800 overflow-hidden relative shadow-xl">
-             <div className="flex border-b border-gray-800 bg-gray-900/50 px-6 py-4">
-               <div className="flex items-center gap-2 text-yellow-400 font-medium">
+             <div className="flex gap-6 border-b border-gray-800 bg-gray-900/50 px-6 py-4">
+               <button
+                 onClick={() => setEditorTab('profile')}
+                 className={`flex items-center gap-2 font-medium transition ${editorTab === 'profile' ? 'text-yellow-400' : 'text-gray-500 hover:text-gray-300'}`}
+               >
                   <LayoutTemplate className="w-4 h-4" /> Profile Editor
-               </div>
+               </button>
+               <button
+                 onClick={() => setEditorTab('training')}
+                 className={`flex items-center gap-2 font-medium transition ${editorTab === 'training' ? 'text-yellow-400' : 'text-gray-500 hover:text-gray-300'}`}
+               >
+                  <BookOpen className="w-4 h-4" /> Persona & Training
+               </button>
+               <button
+                 onClick={() => setEditorTab('chat')}
+                 className={`flex items-center gap-2 font-medium transition ${editorTab === 'chat' ? 'text-yellow-400' : 'text-gray-500 hover:text-gray-300'}`}
+               >
+                  <MessageSquare className="w-4 h-4" /> Chat Playground
+               </button>
              </div>
              
+             {editorTab === 'chat' ? (
+               <CharacterChat model={currentModel} />
+             ) : editorTab === 'training' ? (
+               <TrainingEditor model={currentModel} onChange={updateSelectedModel} />
+             ) : (
              <div className="p-8">
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
                     
@@ -469,9 +671,20 @@ export const ModelTrainer: React.FC<ModelTrainerProps> = ({ onModeChange }) => {
                         </div>
 
                         <div>
-                           <label className="text-sm font-semibold text-gray-300 flex items-center gap-2 mb-2">
-                              <Wand2 className="w-4 h-4 text-cyan-400" /> Visual Prompt (Description)
-                           </label>
+                           <div className="flex justify-between items-center mb-2">
+                             <label className="text-sm font-semibold text-gray-300 flex items-center gap-2">
+                                <Wand2 className="w-4 h-4 text-cyan-400" /> Visual Prompt (Description)
+                             </label>
+                             <button
+                               onClick={handleExtractForModel}
+                               disabled={isExtracting || !currentModel.referenceImages?.length}
+                               className="bg-cyan-600/20 hover:bg-cyan-600 text-cyan-300 hover:text-white px-3 py-1 rounded-lg text-xs font-medium transition flex items-center gap-1 disabled:opacity-40 disabled:cursor-not-allowed"
+                               title={currentModel.referenceImages?.length ? "Derive the description from your reference images" : "Add reference images first"}
+                             >
+                               {isExtracting ? <Loader2 className="w-3 h-3 animate-spin" /> : <ScanFace className="w-3 h-3" />}
+                               Extract from references
+                             </button>
+                           </div>
                            <textarea 
                               value={currentModel.consistencyContext || ''} 
                               onChange={(e) => updateSelectedModel({ consistencyContext: e.target.value })} 
@@ -485,7 +698,9 @@ export const ModelTrainer: React.FC<ModelTrainerProps> = ({ onModeChange }) => {
                     </div>
                 </div>
              </div>
+             )}
       </div>
+      {renderExtractionDiff()}
     </div>
   );
 };
@@ -0,0 +1,215 @@
+import React, { useState } from 'react';
+import { savePreset, deletePresetById } from '../services/storageService';
+import { extractVariables } from '../services/promptPresets';
+import { ImageAspectRatio, PresetTarget, PromptPreset, VideoResolution } from '../types';
+import { BookMarked, Plus, Save, Trash2, X } from 'lucide-react';
+
+interface PresetManagerModalProps {
+  presets: PromptPreset[];
+  initialId?: string;
+  onChanged: () => void;
+  onClose: () => void;
+}
+
+const TARGETS: { id: PresetTarget; label: string }[] = [
+  { id: 'any', label: 'Images & Video' },
+  { id: 'image', label: 'Images only' },
+  { id: 'video', label: 'Video only' },
+];
+
+const VIDEO_RATIOS = ['16:9', '9:16'];
+
+const blankPreset = (): PromptPreset => ({
+  id: `preset-${Date.now()}`,
+  name: 'New Preset',
+  template: '',
+  target: 'any',
+  lastModified: Date.now(),
+});
+
+export const PresetManagerModal: React.FC<PresetManagerModalProps> = ({ presets, initialId, onChanged, onClose }) => {
+  const [draft, setDraft] = useState<PromptPreset>(() => presets.find(p => p.id === initialId) || presets[0] || blankPreset());
+  const [isDirty, setIsDirty] = useState(false);
+
+  const isSaved = presets.some(p => p.id === draft.id);
+  const variables = extractVariables(draft.template);
+  // Video only supports two ratios, both of which images support too
+  const ratioOptions: string[] = draft.target === 'image' ? Object.values(ImageAspectRatio) : VIDEO_RATIOS;
+
+  const update = (updates: Partial<PromptPreset>) => {
+    setDraft(prev => ({ ...prev, ...updates }));
+    setIsDirty(true);
+  };
+
+  const updateDefaults = (updates: Partial<NonNullable<PromptPreset['defaults']>>) => {
+    update({ defaults: { ...draft.defaults, ...updates } });
+  };
+
+  const select = (preset: PromptPreset) => {
+    if (isDirty && !window.confirm("Discard unsaved changes to this preset?")) return;
+    setDraft(preset);
+    setIsDirty(false);
+  };
+
+  const handleSave = async () => {
+    if (!draft.name.trim() || !draft.template.trim()) return;
+    await savePreset({ ...draft, name: draft.name.trim(), lastModified: Date.now() });
+    setIsDirty(false);
+    onChanged();
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm(`Delete preset "${draft.name}"?`)) return;
+    await deletePresetById(draft.id);
+    onChanged();
+    const next = presets.find(p => p.id !== draft.id);
+    setDraft(next || blankPreset());
+    setIsDirty(false);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-gray-900 border border-gray-700 rounded-2xl w-full max-w-4xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-6 border-b border-gray-800 flex justify-between items-center bg-gradient-to-r from-purple-900/20 to-pink-900/20">
+          <h3 className="text-xl font-bold text-white flex items-center gap-2">
+            <BookMarked className="text-purple-400" /> Prompt Presets
+          </h3>
+          <button onClick={() => (!isDirty || window.confirm("Discard unsaved changes?")) && onClose()} className="text-gray-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          <div className="w-56 border-r border-gray-800 p-3 space-y-1 overflow-y-auto">
+            <button
+              onClick={() => select(blankPreset())}
+              className="w-full text-sm text-purple-300 hover:text-white border border-dashed border-gray-700 hover:border-purple-500 rounded-lg py-2 flex items-center justify-center gap-2 mb-2"
+            >
+              <Plus className="w-4 h-4" /> New Preset
+            </button>
+            {presets.map(p => (
+              <button
+                key={p.id}
+                onClick={() => select(p)}
+                className={`w-full text-left px-3 py-2 rounded-lg text-sm truncate ${p.id === draft.id ? 'bg-purple-600/20 text-white' : 'text-gray-400 hover:bg-gray-800 hover:text-white'}`}
+              >
+                {p.name}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex-1 p-6 space-y-4 overflow-y-auto">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-xs font-medium text-gray-400 mb-1">Name</label>
+                <input
+                  value={draft.name}
+                  onChange={(e) => update({ name: e.target.value })}
+                  className="w-full bg-gray-800 border border-gray-700 rounded-lg p-2 text-white focus:ring-2 focus:ring-purple-500 outline-none"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-400 mb-1">Use In</label>
+                <select
+                  value={draft.target}
+                  onChange={(e) => update({ target: e.target.value as PresetTarget, defaults: undefined })}
+                  className="w-full bg-gray-800 border border-gray-700 rounded-lg p-2 text-white focus:ring-2 focus:ring-purple-500 outline-none"
+                >
+                  {TARGETS.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1">Style Snippet</label>
+              <textarea
+                value={draft.template}
+                onChange={(e) => update({ template: e.target.value })}
+                placeholder="cinematic still, {{lens}} lens, {{time_of_day}} light, film grain"
+                className="w-full bg-gray-800 border border-gray-700 rounded-lg p-3 text-white focus:ring-2 focus:ring-purple-500 outline-none min-h-[100px] font-mono text-sm"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Appended to the prompt. Use <code className="text-purple-300">{'{{name}}'}</code> for values filled in when generating,
+                or <code className="text-purple-300">{'{{prompt}}'}</code> to place the prompt yourself.
+              </p>
+              {variables.length > 0 && (
+                <div className="flex flex-wrap gap-1 mt-2">
+                  {variables.map(v => <span key={v} className="text-[10px] bg-purple-600/20 text-purple-300 px-2 py-0.5 rounded-full">{v}</span>)}
+                </div>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1">Avoid (Negative Notes)</label>
+              <textarea
+                value={draft.negative || ''}
+                onChange={(e) => update({ negative: e.target.value })}
+                placeholder="text, watermarks, extra fingers, oversaturated colors"
+                className="w-full bg-gray-800 border border-gray-700 rounded-lg p-3 text-white focus:ring-2 focus:ring-purple-500 outline-none min-h-[60px] text-sm"
+              />
+            </div>
+
+            <div className="bg-gray-800/50 p-3 rounded-lg border border-gray-700 space-y-3">
+              <label className="block text-xs font-medium text-gray-400">Defaults Applied When Selected</label>
+              <div className="grid grid-cols-3 gap-3">
+                <div>
+                  <label className="block text-[11px] text-gray-500 mb-1">Aspect Ratio</label>
+                  <select
+                    value={draft.defaults?.aspectRatio || ''}
+                    onChange={(e) => updateDefaults({ aspectRatio: e.target.value || undefined })}
+                    className="w-full bg-gray-900 border border-gray-700 rounded-lg p-1.5 text-sm text-white outline-none"
+                  >
+                    <option value="">Keep current</option>
+                    {ratioOptions.map(r => <option key={r} value={r}>{r}</option>)}
+                  </select>
+                </div>
+                {draft.target !== 'video' && (
+                  <div>
+                    <label className="block text-[11px] text-gray-500 mb-1">Image Quality</label>
+                    <select
+                      value={draft.defaults?.highQuality === undefined ? '' : String(draft.defaults.highQuality)}
+                      onChange={(e) => updateDefaults({ highQuality: e.target.value === '' ? undefined : e.target.value === 'true' })}
+                      className="w-full bg-gray-900 border border-gray-700 rounded-lg p-1.5 text-sm text-white outline-none"
+                    >
+                      <option value="">Keep current</option>
+                      <option value="false">Standard</option>
+                      <option value="true">High Quality</option>
+                    </select>
+                  </div>
+                )}
+                {draft.target !== 'image' && (
+                  <div>
+                    <label className="block text-[11px] text-gray-500 mb-1">Video Resolution</label>
+                    <select
+                      value={draft.defaults?.resolution || ''}
+                      onChange={(e) => updateDefaults({ resolution: (e.target.value || undefined) as VideoResolution | undefined })}
+                      className="w-full bg-gray-900 border border-gray-700 rounded-lg p-1.5 text-sm text-white outline-none"
+                    >
+                      <option value="">Keep current</option>
+                      {[VideoResolution.HD, VideoResolution.FHD].map(r => <option key={r} value={r}>{r}</option>)}
+                    </select>
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-gray-800 flex justify-between items-center">
+          {isSaved ? (
+            <button onClick={handleDelete} className="text-sm text-gray-400 hover:text-red-400 flex items-center gap-2">
+              <Trash2 className="w-4 h-4" /> Delete
+            </button>
+          ) : <span />}
+          <button
+            onClick={handleSave}
+            disabled={!isDirty || !draft.name.trim() || !draft.template.trim()}
+            className="bg-purple-600 hover:bg-purple-500 text-white px-4 py-2 rounded-lg text-sm font-bold flex items-center gap-2 disabled:opacity-50"
+          >
+            <Save className="w-4 h-4" /> Save Preset
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
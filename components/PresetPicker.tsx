@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { extractVariables, isPresetForTarget } from '../services/promptPresets';
+import { PresetSelection, PromptPreset } from '../types';
+import { PresetManagerModal } from './PresetManagerModal';
+import { BookMarked, Settings2 } from 'lucide-react';
+
+interface PresetPickerProps {
+  presets: PromptPreset[];
+  target: 'image' | 'video';
+  selection: PresetSelection | null;
+  onChange: (selection: PresetSelection | null) => void;
+  onApplyDefaults?: (defaults: NonNullable<PromptPreset['defaults']>) => void;
+  onPresetsChanged: () => void;
+}
+
+export const PresetPicker: React.FC<PresetPickerProps> = ({ presets, target, selection, onChange, onApplyDefaults, onPresetsChanged }) => {
+  const [showManager, setShowManager] = useState(false);
+
+  const available = presets.filter(p => isPresetForTarget(p, target));
+  const selected = presets.find(p => p.id === selection?.presetId);
+
+  const handleSelect = (presetId: string) => {
+    const preset = presets.find(p => p.id === presetId);
+    if (!preset) {
+      onChange(null);
+      return;
+    }
+    // Carry over values for variables with the same name
+    const values = Object.fromEntries(extractVariables(preset.template).map(name => [name, selection?.values[name] || '']));
+    onChange({ presetId, values });
+    if (preset.defaults && onApplyDefaults) onApplyDefaults(preset.defaults);
+  };
+
+  return (
+    <div className="bg-gray-800/50 p-3 rounded-lg border border-gray-700 space-y-2">
+      <div className="flex justify-between items-center">
+        <label className="text-sm font-medium text-gray-300 flex items-center gap-2">
+          <BookMarked className="w-4 h-4 text-gray-400" /> Style Preset
+        </label>
+        <button onClick={() => setShowManager(true)} className="text-xs text-gray-400 hover:text-white flex items-center gap-1">
+          <Settings2 className="w-3 h-3" /> Manage
+        </button>
+      </div>
+      <select
+        value={selected?.id || ''}
+        onChange={(e) => handleSelect(e.target.value)}
+        className="w-full bg-gray-900 border border-gray-600 rounded-lg p-2 text-white outline-none"
+      >
+        <option value="">None</option>
+        {available.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+      </select>
+      {selected && selection && extractVariables(selected.template).map(name => (
+        <div key={name} className="flex items-center gap-2">
+          <label className="text-xs text-gray-400 w-24 truncate" title={name}>{name}</label>
+          <input
+            value={selection.values[name] || ''}
+            onChange={(e) => onChange({ ...selection, values: { ...selection.values, [name]: e.target.value } })}
+            className="flex-1 bg-gray-900 border border-gray-700 rounded-md px-2 py-1 text-sm text-white outline-none"
+          />
+        </div>
+      ))}
+      {available.length === 0 && (
+        <p className="text-xs text-gray-500">No presets yet. Save your favourite style suffixes with Manage.</p>
+      )}
+
+      {showManager && (
+        <PresetManagerModal
+          presets={presets}
+          initialId={selected?.id}
+          onChanged={onPresetsChanged}
+          onClose={() => setShowManager(false)}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { enhancePrompt, mergePrompts } from '../services/geminiService';
+import { PromptSuggestion } from '../types';
+import { Wand2, Loader2, Check, Combine, X } from 'lucide-react';
+
+interface PromptEnhancerProps {
+  idea: string;
+  target: 'image' | 'video';
+  onSelect: (prompt: string) => void;
+}
+
+const ACCENTS = {
+  image: { text: 'text-purple-300', border: 'border-purple-500', button: 'bg-purple-600 hover:bg-purple-500' },
+  video: { text: 'text-pink-300', border: 'border-pink-500', button: 'bg-pink-600 hover:bg-pink-500' },
+};
+
+export const PromptEnhancer: React.FC<PromptEnhancerProps> = ({ idea, target, onSelect }) => {
+  const [suggestions, setSuggestions] = useState<PromptSuggestion[]>([]);
+  const [selected, setSelected] = useState<number[]>([]);
+  const [isEnhancing, setIsEnhancing] = useState(false);
+  const [isMerging, setIsMerging] = useState(false);
+
+  const accent = ACCENTS[target];
+
+  const handleEnhance = async () => {
+    if (!idea.trim()) return;
+    setIsEnhancing(true);
+    setSelected([]);
+    try {
+      const results = await enhancePrompt(idea, target);
+      if (results.length === 0) throw new Error("No suggestions returned");
+      setSuggestions(results);
+    } catch (e) {
+      console.error(e);
+      alert("Could not enhance the prompt. Please try again.");
+    } finally {
+      setIsEnhancing(false);
+    }
+  };
+
+  const close = () => {
+    setSuggestions([]);
+    setSelected([]);
+  };
+
+  const use = (prompt: string) => {
+    onSelect(prompt);
+    close();
+  };
+
+  const toggle = (index: number) => {
+    setSelected(prev => prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index]);
+  };
+
+  const handleMerge = async () => {
+    setIsMerging(true);
+    try {
+      use(await mergePrompts(selected.map(i => suggestions[i].prompt), target));
+    } catch (e) {
+      console.error(e);
+      alert("Could not merge the prompts. Please try again.");
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  return (
+    <div className="text-xs">
+      <button
+        onClick={handleEnhance}
+        disabled={isEnhancing || !idea.trim()}
+        className={`${accent.text} hover:text-white flex items-center gap-1 disabled:opacity-40 disabled:cursor-not-allowed`}
+        title="Expand this idea into detailed prompts"
+      >
+        {isEnhancing ? <Loader2 className="w-3 h-3 animate-spin" /> : <Wand2 className="w-3 h-3" />}
+        {suggestions.length > 0 ? 'Try again' : 'Enhance prompt'}
+      </button>
+
+      {suggestions.length > 0 && (
+        <div className="mt-2 bg-gray-950 border border-gray-800 rounded-lg p-2 space-y-2">
+          <div className="flex justify-between items-center text-gray-400">
+            <span>Pick one, or tick several and merge them</span>
+            <button onClick={close} className="hover:text-white"><X className="w-3 h-3" /></button>
+          </div>
+          {suggestions.map((s, i) => (
+            <div
+              key={i}
+              className={`border rounded-lg p-2 flex gap-2 transition ${selected.includes(i) ? accent.border : 'border-gray-800'}`}
+            >
+              <input type="checkbox" checked={selected.includes(i)} onChange={() => toggle(i)} className="mt-0.5" />
+              <div className="flex-1 min-w-0">
+                <p className={`font-semibold ${accent.text}`}>{s.title}</p>
+                <p className="text-gray-300 leading-relaxed">{s.prompt}</p>
+              </div>
+              <button onClick={() => use(s.prompt)} className="self-start text-gray-400 hover:text-white flex items-center gap-1" title="Use this prompt">
+                <Check className="w-3 h-3" /> Use
+              </button>
+            </div>
+          ))}
+          {selected.length > 1 && (
+            <button
+              onClick={handleMerge}
+              disabled={isMerging}
+              className={`w-full ${accent.button} text-white rounded-md py-1.5 font-bold flex items-center justify-center gap-1 disabled:opacity-50`}
+            >
+              {isMerging ? <Loader2 className="w-3 h-3 animate-spin" /> : <Combine className="w-3 h-3" />}
+              Merge {selected.length} Prompts
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,100 @@
+import React from 'react';
+import { CustomModel, SceneCharacter, ScenePosition } from '../types';
+import { MAX_REFS_PER_CHARACTER } from '../services/geminiService';
+import { Users, X, Image as ImageIcon } from 'lucide-react';
+
+interface SceneComposerProps {
+  models: CustomModel[];
+  scene: SceneCharacter[];
+  onChange: (scene: SceneCharacter[]) => void;
+  maxCharacters: number;
+}
+
+export const SCENE_POSITIONS: { id: ScenePosition; label: string; phrase: string }[] = [
+  { id: 'auto', label: 'Anywhere', phrase: '' },
+  { id: 'left', label: 'Left', phrase: 'on the left side of the frame' },
+  { id: 'center', label: 'Center', phrase: 'in the center of the frame' },
+  { id: 'right', label: 'Right', phrase: 'on the right side of the frame' },
+  { id: 'foreground', label: 'Foreground', phrase: 'in the foreground' },
+  { id: 'background', label: 'Background', phrase: 'in the background' },
+];
+
+const renderAvatar = (model: CustomModel) => model.avatar?.startsWith('data:')
+  ? <img src={model.avatar} className="w-full h-full object-cover" />
+  : <span className="text-sm">{model.avatar || "👤"}</span>;
+
+export const SceneComposer: React.FC<SceneComposerProps> = ({ models, scene, onChange, maxCharacters }) => {
+  const isCast = (id: string) => scene.some(c => c.modelId === id);
+  const isFull = scene.length >= maxCharacters;
+
+  const toggle = (id: string) => {
+    if (isCast(id)) onChange(scene.filter(c => c.modelId !== id));
+    else if (!isFull) onChange([...scene, { modelId: id, position: 'auto', action: '' }]);
+  };
+
+  const update = (id: string, updates: Partial<SceneCharacter>) => {
+    onChange(scene.map(c => c.modelId === id ? { ...c, ...updates } : c));
+  };
+
+  return (
+    <div className="bg-gray-800/50 p-3 rounded-lg border border-gray-700 space-y-3">
+      <label className="block text-sm font-medium text-gray-300 flex items-center gap-2">
+        <Users className="w-4 h-4 text-purple-400" /> Characters (Optional)
+        <span className="text-xs text-gray-500 font-normal ml-auto">{scene.length}/{maxCharacters}</span>
+      </label>
+      <div className="flex flex-wrap gap-2">
+        {models.map(m => (
+          <button
+            key={m.id}
+            onClick={() => toggle(m.id)}
+            disabled={!isCast(m.id) && isFull}
+            className={`flex items-center gap-2 pl-1 pr-3 py-1 rounded-full border text-sm transition disabled:opacity-40 disabled:cursor-not-allowed ${
+              isCast(m.id) ? 'bg-purple-600/20 border-purple-500 text-white' : 'bg-gray-900 border-gray-700 text-gray-400 hover:text-white'
+            }`}
+          >
+            <span className="w-6 h-6 rounded-full overflow-hidden bg-gray-700 flex items-center justify-center">{renderAvatar(m)}</span>
+            {m.name}
+          </button>
+        ))}
+      </div>
+
+      {/* Scene Composer: where each character stands and what they do */}
+      {scene.map(c => {
+        const model = models.find(m => m.id === c.modelId);
+        if (!model) return null;
+        const refCount = Math.min(model.referenceImages?.length || 0, MAX_REFS_PER_CHARACTER); // Only this many are sent
+        return (
+          <div key={c.modelId} className="bg-gray-900 border border-gray-700 rounded-lg p-2 space-y-2">
+            <div className="flex items-center gap-2 text-sm text-white">
+              <span className="w-5 h-5 rounded-full overflow-hidden bg-gray-700 flex items-center justify-center">{renderAvatar(model)}</span>
+              <span className="font-medium truncate">{model.name}</span>
+              {refCount > 0 && (
+                <span className="text-[10px] text-green-400 flex items-center gap-1" title={`${refCount} reference image${refCount === 1 ? ' is' : 's are'} attached to the request`}>
+                  <ImageIcon className="w-3 h-3" /> {refCount}
+                </span>
+              )}
+              <button onClick={() => toggle(c.modelId)} className="ml-auto text-gray-500 hover:text-white">
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+            <div className="flex gap-2">
+              <select
+                value={c.position}
+                onChange={(e) => update(c.modelId, { position: e.target.value as ScenePosition })}
+                className="bg-gray-800 border border-gray-700 rounded-md px-2 py-1 text-xs text-white outline-none"
+              >
+                {SCENE_POSITIONS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+              </select>
+              <input
+                value={c.action}
+                onChange={(e) => update(c.modelId, { action: e.target.value })}
+                placeholder="What are they doing?"
+                className="flex-1 min-w-0 bg-gray-800 border border-gray-700 rounded-md px-2 py-1 text-xs text-white outline-none"
+              />
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,212 @@
+import React, { useState, useEffect } from 'react';
+import { getSettings, subscribeToSettings, updateSettings, getModelOptions, getModel, DEFAULT_SETTINGS } from '../services/settingsService';
+import { getProvider } from '../services/providers';
+import { AppSettings, ImageAspectRatio, ImageSize, ModelCapability, VideoResolution } from '../types';
+import { Settings2, Cpu, SlidersHorizontal, RefreshCw, RotateCcw } from 'lucide-react';
+
+const CAPABILITIES: { id: ModelCapability; label: string; description: string }[] = [
+  { id: 'image', label: 'Images', description: 'Image generation and edits' },
+  { id: 'imageHighQuality', label: 'High-quality images', description: 'High Quality renders, remasters and upscales' },
+  { id: 'video', label: 'Video', description: 'Text/image to video, interpolation and extension from a last frame' },
+  { id: 'videoReference', label: 'Video with references', description: 'Character reference videos and native extension' },
+  { id: 'analysis', label: 'Analysis', description: 'Media analysis and character reference reading' },
+  { id: 'text', label: 'Text', description: 'Storyboard planning, prompt enhancement and character chat' },
+];
+
+const IMAGE_SIZES: ImageSize[] = ['1K', '2K', '4K'];
+
+const MAX_RETRY_LIMIT = 50;
+const MAX_BACKOFF_LIMIT_SEC = 60;
+
+interface WholeNumberInputProps {
+  value: number;
+  min: number;
+  max: number;
+  onCommit: (value: number) => void;
+}
+
+// Edits a draft and only saves a whole number in range on blur or Enter, so clearing the field to retype doesn't save 0.
+// Blank or unparseable input goes back to the saved value.
+const WholeNumberInput: React.FC<WholeNumberInputProps> = ({ value, min, max, onCommit }) => {
+  const [draft, setDraft] = useState(String(value));
+
+  useEffect(() => setDraft(String(value)), [value]);
+
+  const commit = () => {
+    const n = Math.round(Number(draft));
+    if (draft.trim() === '' || !Number.isFinite(n)) return setDraft(String(value));
+    const clamped = Math.min(Math.max(n, min), max);
+    setDraft(String(clamped));
+    if (clamped !== value) onCommit(clamped);
+  };
+
+  return (
+    <input
+      type="number"
+      min={min}
+      max={max}
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => { if (e.key === 'Enter') commit(); }}
+      className="w-full bg-gray-800 border border-gray-700 rounded-lg p-2 text-white focus:ring-2 focus:ring-blue-500 outline-none"
+    />
+  );
+};
+
+export const Settings: React.FC = () => {
+  const [settings, setSettings] = useState<AppSettings>(getSettings());
+
+  useEffect(() => subscribeToSettings(setSettings), []);
+
+  const provider = getProvider();
+
+  const setModel = (capability: ModelCapability, modelId: string) => {
+    updateSettings({ models: { ...settings.models, [capability]: modelId } });
+  };
+
+  const handleReset = () => {
+    if (!window.confirm("Reset all settings to their defaults?")) return;
+    updateSettings(DEFAULT_SETTINGS);
+  };
+
+  const optionClass = (active: boolean) => `p-2 text-sm rounded-md border ${
+    active ? 'bg-blue-600 border-blue-500 text-white' : 'bg-gray-800 border-gray-700 text-gray-400 hover:bg-gray-700'
+  }`;
+
+  return (
+    <div className="max-w-4xl mx-auto p-6 space-y-8">
+      <div className="flex justify-between items-start gap-4">
+        <div>
+          <h2 className="text-2xl font-bold mb-2 flex items-center gap-2">
+            <Settings2 className="text-blue-400" /> Settings
+          </h2>
+          <p className="text-gray-400 text-sm">Changes are saved automatically and apply across every tool.</p>
+        </div>
+        <button
+          onClick={handleReset}
+          className="text-sm bg-gray-800 hover:bg-gray-700 text-white px-4 py-2 rounded-lg flex items-center gap-2"
+        >
+          <RotateCcw className="w-4 h-4" /> Reset to Defaults
+        </button>
+      </div>
+
+      {/* Models */}
+      <section className="bg-gray-900 border border-gray-800 rounded-2xl p-6 space-y-4">
+        <div className="flex justify-between items-center">
+          <h3 className="text-lg font-bold flex items-center gap-2">
+            <Cpu className="w-5 h-5 text-blue-400" /> Models
+          </h3>
+          <span className="text-xs text-gray-500">Provider: {provider.label}</span>
+        </div>
+        <div className="divide-y divide-gray-800">
+          {CAPABILITIES.map(capability => {
+            const options = getModelOptions(capability.id);
+            return (
+              <div key={capability.id} className="py-3 flex flex-col md:flex-row md:items-center gap-2 md:gap-4">
+                <div className="flex-1">
+                  <p className="text-sm font-medium text-gray-200">{capability.label}</p>
+                  <p className="text-xs text-gray-500">{capability.description}</p>
+                </div>
+                <select
+                  value={getModel(capability.id)}
+                  onChange={(e) => setModel(capability.id, e.target.value)}
+                  disabled={options.length < 2}
+                  className="md:w-72 bg-gray-800 border border-gray-700 rounded-lg p-2 text-white text-sm focus:ring-2 focus:ring-blue-500 outline-none disabled:opacity-60"
+                >
+                  {options.map((option, i) => (
+                    <option key={option.id} value={option.id}>{option.label}{i === 0 ? ' (default)' : ''}</option>
+                  ))}
+                </select>
+              </div>
+            );
+          })}
+        </div>
+      </section>
+
+      {/* Defaults */}
+      <section className="bg-gray-900 border border-gray-800 rounded-2xl p-6 space-y-6">
+        <h3 className="text-lg font-bold flex items-center gap-2">
+          <SlidersHorizontal className="w-5 h-5 text-blue-400" /> Defaults
+        </h3>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-1">High-quality Image Size</label>
+          <p className="text-xs text-gray-500 mb-2">Output size for High Quality renders and remasters, where the model supports it.</p>
+          <div className="grid grid-cols-3 gap-2 md:w-72">
+            {IMAGE_SIZES.map(size => (
+              <button key={size} onClick={() => updateSettings({ imageSize: size })} className={optionClass(settings.imageSize === size)}>
+                {size}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Image Aspect Ratio</label>
+          <div className="grid grid-cols-5 gap-2">
+            {Object.values(ImageAspectRatio).map(ratio => (
+              <button key={ratio} onClick={() => updateSettings({ imageAspectRatio: ratio })} className={optionClass(settings.imageAspectRatio === ratio)}>
+                {ratio}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Video Aspect Ratio</label>
+            <select
+              value={settings.videoAspectRatio}
+              onChange={(e) => updateSettings({ videoAspectRatio: e.target.value as AppSettings['videoAspectRatio'] })}
+              className="w-full bg-gray-800 border border-gray-700 rounded-lg p-2 text-white focus:ring-2 focus:ring-blue-500 outline-none"
+            >
+              <option value="16:9">Landscape (16:9)</option>
+              <option value="9:16">Portrait (9:16)</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Video Resolution</label>
+            <div className="grid grid-cols-2 gap-2">
+              {[VideoResolution.HD, VideoResolution.FHD].map(res => (
+                <button key={res} onClick={() => updateSettings({ videoResolution: res })} className={optionClass(settings.videoResolution === res)}>
+                  {res}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      </section>
+
+      {/* Retries */}
+      <section className="bg-gray-900 border border-gray-800 rounded-2xl p-6 space-y-4">
+        <div>
+          <h3 className="text-lg font-bold flex items-center gap-2">
+            <RefreshCw className="w-5 h-5 text-blue-400" /> Rate Limit Retries
+          </h3>
+          <p className="text-xs text-gray-500 mt-1">When a request hits a quota or a busy server it is retried with a growing delay, up to these limits.</p>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Max Retries</label>
+            <WholeNumberInput
+              value={settings.maxRetries}
+              min={0}
+              max={MAX_RETRY_LIMIT}
+              onCommit={(maxRetries) => updateSettings({ maxRetries })}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Max Delay Between Retries (seconds)</label>
+            <WholeNumberInput
+              value={Math.round(settings.maxBackoffMs / 1000)}
+              min={1}
+              max={MAX_BACKOFF_LIMIT_SEC}
+              onCommit={(seconds) => updateSettings({ maxBackoffMs: seconds * 1000 })}
+            />
+          </div>
+        </div>
+      </section>
+    </div>
+  );
+};
@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { VideoShot } from '../types';
+import { ChevronUp, ChevronDown, RotateCcw, Trash2, Loader2, FastForward, Download, ListVideo } from 'lucide-react';
+
+interface ShotListProps {
+  shots: VideoShot[];
+  isBusy: boolean;
+  exportProgress: number | null; // 0-1 while the sequence is being stitched
+  onUpdate: (id: string, updates: Partial<VideoShot>) => void;
+  onMove: (from: number, to: number) => void;
+  onDelete: (id: string) => void;
+  onRegenerate: (id: string) => void;
+  onExtend: (prompt: string) => void;
+  onExport: () => void;
+  onSelect: (shot: VideoShot) => void;
+}
+
+export const ShotList: React.FC<ShotListProps> = ({
+  shots, isBusy, exportProgress, onUpdate, onMove, onDelete, onRegenerate, onExtend, onExport, onSelect,
+}) => {
+  const [nextPrompt, setNextPrompt] = useState('');
+  const isExporting = exportProgress !== null;
+
+  const handleExtend = () => {
+    if (!nextPrompt.trim()) return;
+    onExtend(nextPrompt.trim());
+    setNextPrompt('');
+  };
+
+  return (
+    <div className="pt-8 border-t border-gray-800 space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-bold flex items-center gap-2">
+          <ListVideo className="w-5 h-5 text-pink-400" /> Shot Sequence <span className="text-sm text-gray-500 font-normal">({shots.length})</span>
+        </h3>
+        <button
+          onClick={onExport}
+          disabled={isBusy || isExporting || shots.some(s => s.isLoading)}
+          className="text-sm bg-pink-600 hover:bg-pink-500 text-white px-4 py-2 rounded-lg flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+          {isExporting ? `Rendering ${Math.round(exportProgress! * 100)}%` : 'Export Sequence'}
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        {shots.map((shot, index) => (
+          <div key={shot.id} className="bg-gray-800 border border-gray-700 rounded-xl p-2 flex gap-3 items-stretch">
+            <div
+              onClick={() => !shot.isLoading && onSelect(shot)}
+              className="w-40 aspect-video bg-gray-900 rounded-lg overflow-hidden relative flex items-center justify-center cursor-pointer shrink-0"
+            >
+              {shot.isLoading ? (
+                <Loader2 className="w-6 h-6 text-pink-500 animate-spin" />
+              ) : (
+                <video src={`${shot.url}#t=${shot.startSec || 0}`} className="w-full h-full object-cover" muted />
+              )}
+              <span className="absolute top-1 left-1 bg-black/60 text-white text-[10px] px-1.5 py-0.5 rounded font-mono">SHOT {index + 1}</span>
+            </div>
+            <textarea
+              value={shot.prompt}
+              onChange={(e) => onUpdate(shot.id, { prompt: e.target.value })}
+              className="flex-1 bg-transparent hover:bg-gray-900/50 focus:bg-gray-900 border border-transparent focus:border-gray-600 rounded-lg p-2 text-gray-300 text-xs leading-relaxed outline-none resize-none"
+              placeholder="Describe this shot..."
+            />
+            <div className="flex flex-col justify-between text-gray-500">
+              <button onClick={() => onMove(index, index - 1)} disabled={index === 0} className="p-1 rounded hover:bg-gray-700 hover:text-white disabled:opacity-30" title="Move up">
+                <ChevronUp className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => onRegenerate(shot.id)}
+                disabled={isBusy || !shot.prompt.trim()}
+                className="p-1 rounded hover:bg-gray-700 hover:text-pink-300 disabled:opacity-30"
+                title={index === 0 ? 'Regenerate from prompt' : 'Regenerate, continuing from the previous shot'}
+              >
+                <RotateCcw className="w-4 h-4" />
+              </button>
+              <button onClick={() => onDelete(shot.id)} disabled={shot.isLoading} className="p-1 rounded hover:bg-gray-700 hover:text-red-400 disabled:opacity-30" title="Remove shot">
+                <Trash2 className="w-4 h-4" />
+              </button>
+              <button onClick={() => onMove(index, index + 1)} disabled={index === shots.length - 1} className="p-1 rounded hover:bg-gray-700 hover:text-white disabled:opacity-30" title="Move down">
+                <ChevronDown className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          value={nextPrompt}
+          onChange={(e) => setNextPrompt(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleExtend()}
+          placeholder="What happens next? e.g. The camera pulls back to reveal the whole valley..."
+          className="flex-1 bg-gray-800 border border-gray-700 rounded-lg p-3 text-white text-sm focus:ring-2 focus:ring-pink-500 outline-none"
+        />
+        <button
+          onClick={handleExtend}
+          disabled={isBusy || !nextPrompt.trim() || shots.length === 0}
+          className="bg-pink-600 hover:bg-pink-500 text-white font-bold px-5 rounded-lg flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <FastForward className="w-4 h-4" /> Extend
+        </button>
+      </div>
+      <p className="text-xs text-gray-500">
+        New shots continue from the end of the last one. Fresh clips are extended natively by Veo (720p); older ones continue from their last frame.
+      </p>
+    </div>
+  );
+};
@@ -1,7 +1,9 @@
 
-import React from 'react';
+import React, { useState } from 'react';
+import { createPortal } from 'react-dom';
 import { AppMode } from '../types';
-import { Wand2, Film, Clapperboard, Eraser, ScanEye, Layers, BrainCircuit } from 'lucide-react';
+import { Wand2, Film, Clapperboard, Eraser, ScanEye, Layers, BrainCircuit, Library, DatabaseBackup, Settings2 } from 'lucide-react';
+import { WorkspaceBackupModal } from './WorkspaceBackupModal';
 
 interface SidebarProps {
   currentMode: AppMode;
@@ -9,6 +11,8 @@ interface SidebarProps {
 }
 
 export const Sidebar: React.FC<SidebarProps> = ({ currentMode, onModeChange }) => {
+  const [showBackup, setShowBackup] = useState(false);
+
   const items = [
     { mode: AppMode.GENERATE_IMAGE, icon: Wand2, label: 'Generate Image' },
     { mode: AppMode.GENERATE_VIDEO, icon: Film, label: 'Generate Video' },
@@ -16,6 +20,8 @@ export const Sidebar: React.FC<SidebarProps> = ({ currentMode, onModeChange }) =
     { mode: AppMode.EDIT_IMAGE, icon: Eraser, label: 'Edit & Upscale' },
     { mode: AppMode.ANALYZE, icon: ScanEye, label: 'Analyze Media' },
     { mode: AppMode.TRAIN_MODEL, icon: BrainCircuit, label: 'AI Character Studio' },
+    { mode: AppMode.LIBRARY, icon: Library, label: 'Media Library' },
+    { mode: AppMode.SETTINGS, icon: Settings2, label: 'Settings' },
   ];
 
   return (
@@ -49,12 +55,23 @@ export const Sidebar: React.FC<SidebarProps> = ({ currentMode, onModeChange }) =
         ))}
       </nav>
 
-      <div className="p-4 border-t border-gray-800">
+      <div className="p-4 border-t border-gray-800 space-y-3">
+         <button
+           onClick={() => setShowBackup(true)}
+           className="w-full flex items-center justify-center md:justify-start gap-3 px-3 py-2 rounded-xl text-gray-400 hover:bg-gray-800/50 hover:text-gray-200 transition-all duration-200 group"
+           title="Backup & Restore"
+         >
+           <DatabaseBackup className="w-5 h-5 group-hover:text-blue-400 transition-colors" />
+           <span className="text-sm font-medium hidden md:block">Backup & Restore</span>
+         </button>
          <div className="text-xs text-gray-600 text-center md:text-left">
            <p className="hidden md:block">Powered by Gemini & Veo</p>
            <p className="md:hidden">v1.0</p>
          </div>
       </div>
+
+      {/* Portal out of the sidebar's stacking context so the modal covers the whole app */}
+      {showBackup && createPortal(<WorkspaceBackupModal onClose={() => setShowBackup(false)} />, document.body)}
     </div>
   );
 };
\ No newline at end of file
@@ -1,67 +1,351 @@
-import React, { useState } from 'react';
-import { generateImage, generateStoryboardPlan } from '../services/geminiService';
-import { ImageAspectRatio, StoryboardPanel } from '../types';
-import { Loader2, Clapperboard, RefreshCw, RotateCcw } from 'lucide-react';
+import React, { useState, useRef, useEffect } from 'react';
+import { generateImage, generateStoryboardPlan, continueStoryboardPlan, isAbortError, MAX_REFS_PER_CHARACTER } from '../services/geminiService';
+import { getAllProjects, saveProject, updateProject, deleteProjectById, getAllModels, getAllPresets } from '../services/storageService';
+import { composePrompt } from '../services/promptPresets';
+import { createTaskQueue } from '../services/taskQueue';
+import { CustomModel, ImageAspectRatio, PresetSelection, PromptPreset, StoryboardPanel, StoryboardProject } from '../types';
+import { StoryboardProjectPicker } from './StoryboardProjectPicker';
+import { AnimaticModal, PanelClip } from './AnimaticModal';
+import { StoryboardExportModal } from './StoryboardExportModal';
+import { ImageToolkitModal } from './ImageToolkitModal';
+import { PresetPicker } from './PresetPicker';
+import { FinalPromptPreview } from './FinalPromptPreview';
+import { useCallStatus, CallStatusLine } from './CallStatus';
+import { Loader2, Clapperboard, RefreshCw, RotateCcw, Plus, Trash2, GripVertical, ListRestart, FolderOpen, ChevronLeft, ChevronRight, Users, Film, FileDown, SlidersHorizontal } from 'lucide-react';
+
+const MIN_PANELS = 2;
+const MAX_PANELS = 24;
+const RENDER_CONCURRENCY = 2; // Stay gentle on the image quota when rendering every panel
+
+let panelCounter = 0;
+const makePanel = (description: string): StoryboardPanel => ({
+  id: `panel-${Date.now()}-${panelCounter++}`,
+  description,
+  isLoading: false,
+});
+
+const newProjectId = () => `project-${Date.now()}`;
+
+// Keep earlier versions so a regeneration or local adjustment never loses an image we liked
+const withPanelVersion = (panels: StoryboardPanel[], id: string, img: string) => panels.map(p => p.id === id ? {
+  ...p,
+  imageUrl: img,
+  imageHistory: [...(p.imageHistory || (p.imageUrl ? [p.imageUrl] : [])), img],
+  isLoading: false,
+} : p);
 
 export const Storyboard: React.FC = () => {
+  // Project State
+  const [projects, setProjects] = useState<StoryboardProject[]>([]);
+  const [projectId, setProjectId] = useState(newProjectId);
+  const projectIdRef = useRef(projectId); // Lets renders that outlive a project switch find out
+  const mounted = useRef(false);
+  projectIdRef.current = projectId;
+  const [projectName, setProjectName] = useState('Untitled Storyboard');
+  const [showPicker, setShowPicker] = useState(false);
+  const [showAnimatic, setShowAnimatic] = useState(false);
+  const [animaticClips, setAnimaticClips] = useState<Record<string, PanelClip>>({}); // By panel id, kept across openings of the modal
+  const animaticClipsRef = useRef(animaticClips);
+  const [showExport, setShowExport] = useState(false);
+  const [adjustingPanelId, setAdjustingPanelId] = useState<string | null>(null);
+  const skipNextSave = useRef(false); // Opening a project shouldn't count as an edit
+  const pendingSave = useRef<StoryboardProject | null>(null); // Edits still waiting on the auto-save timer
+
   const [storyPrompt, setStoryPrompt] = useState('');
+  const [castIds, setCastIds] = useState<string[]>([]);
+  const [customModels, setCustomModels] = useState<CustomModel[]>([]);
+  const [panelCount, setPanelCount] = useState(4);
   const [panels, setPanels] = useState<StoryboardPanel[]>([]);
   const [isPlanning, setIsPlanning] = useState(false);
+  const call = useCallStatus(); // Shared by planning and panel renders, so one Cancel stops a whole "Generate All"
+  const [enqueueRender] = useState(() => createTaskQueue(RENDER_CONCURRENCY));
+  const [replanningFrom, setReplanningFrom] = useState<number | null>(null);
+  const [presets, setPresets] = useState<PromptPreset[]>([]);
+  const [presetSelection, setPresetSelection] = useState<PresetSelection | null>(null);
+
+  // Drag & drop reordering
+  const dragIndex = useRef<number | null>(null);
+  const [dragArmedId, setDragArmedId] = useState<string | null>(null); // Only the grip handle starts a drag
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  // Load saved projects and reopen the most recent one
+  useEffect(() => {
+    getAllModels().then(models => {
+      setCustomModels(models.filter(m => (m.consistencyContext && m.consistencyContext.length > 5) || (m.referenceImages && m.referenceImages.length > 0)));
+    });
+
+    getAllPresets().then(setPresets);
+
+    getAllProjects().then(loaded => {
+      setProjects(loaded);
+      if (loaded[0]) openProject(loaded[0]);
+    });
+  }, []);
+
+  // Release the animatic clips when leaving the storyboard
+  useEffect(() => { animaticClipsRef.current = animaticClips; }, [animaticClips]);
+  useEffect(() => () => {
+    Object.values<PanelClip>(animaticClipsRef.current).forEach(clip => clip.url && URL.revokeObjectURL(clip.url));
+  }, []);
+
+  const flushSave = () => {
+    const project = pendingSave.current;
+    if (!project) return;
+    pendingSave.current = null;
+    saveProject(project);
+    setProjects(prev => [project, ...prev.filter(p => p.id !== project.id)]);
+  };
+
+  // Debounced Auto-save (only once there is something worth keeping)
+  useEffect(() => {
+    if (skipNextSave.current) {
+      skipNextSave.current = false;
+      return;
+    }
+    if (panels.length === 0) return;
+    pendingSave.current = {
+      id: projectId,
+      name: projectName,
+      storyPrompt,
+      castIds,
+      panels: panels.map(p => ({ ...p, isLoading: false })),
+      preset: presetSelection || undefined,
+      lastModified: Date.now(),
+    };
+    const timer = setTimeout(flushSave, 1000);
+    return () => clearTimeout(timer);
+  }, [panels, storyPrompt, castIds, presetSelection, projectName, projectId]);
+
+  // Leaving the storyboard mid-debounce shouldn't lose the last edits
+  useEffect(() => {
+    mounted.current = true;
+    return () => {
+      mounted.current = false;
+      flushSave();
+    };
+  }, []);
+
+  const openProject = (project: StoryboardProject) => {
+    setShowPicker(false);
+    if (project.id === projectId) return;
+    flushSave();
+    skipNextSave.current = true;
+    setProjectId(project.id);
+    setProjectName(project.name);
+    setStoryPrompt(project.storyPrompt);
+    setCastIds(project.castIds || []);
+    setPresetSelection(project.preset || null);
+    setPanels(project.panels.map(p => ({ ...p, isLoading: false })));
+  };
+
+  const handleNewProject = () => {
+    flushSave();
+    skipNextSave.current = true;
+    setProjectId(newProjectId());
+    setProjectName('Untitled Storyboard');
+    setStoryPrompt('');
+    setCastIds([]);
+    setPresetSelection(null);
+    setPanels([]);
+    setShowPicker(false);
+  };
+
+  const handleDuplicateProject = async (project: StoryboardProject) => {
+    const copy: StoryboardProject = { ...project, id: newProjectId(), name: `${project.name} (copy)`, lastModified: Date.now() };
+    await saveProject(copy);
+    setProjects(prev => [copy, ...prev]);
+  };
+
+  const handleDeleteProject = async (id: string) => {
+    if (!window.confirm("Delete this storyboard project?")) return;
+    if (pendingSave.current?.id === id) pendingSave.current = null; // Don't bring it back on the next flush
+    await deleteProjectById(id);
+    setProjects(prev => prev.filter(p => p.id !== id));
+    if (id === projectId) handleNewProject();
+  };
 
   const handleCreatePlan = async () => {
     if (!storyPrompt) return;
+    if (panels.length > 0 && !window.confirm(`Plan the story again? All ${panels.length} scenes and their image versions will be replaced.`)) return;
     setIsPlanning(true);
-    setPanels([]); // Clear previous
     try {
-      const descriptions = await generateStoryboardPlan(storyPrompt);
-      const newPanels = descriptions.map((desc, index) => ({
-        id: `panel-${index}`,
-        description: desc,
-        isLoading: false,
-      }));
-      setPanels(newPanels);
+      const descriptions = await generateStoryboardPlan(storyPrompt, panelCount, call.begin('Planning the story...'));
+      // The current scenes stay until a new plan has actually arrived
+      setPanels(descriptions.map(makePanel));
+      if (projectName === 'Untitled Storyboard') setProjectName(storyPrompt.slice(0, 40));
+      if (descriptions.length < panelCount) {
+        alert(`Only ${descriptions.length} of ${panelCount} scenes were planned. Add the rest by hand or plan again.`);
+      }
     } catch (e) {
       console.error(e);
-      alert("Could not generate storyboard plan. Please try again.");
+      if (!isAbortError(e)) alert("Could not generate storyboard plan. Please try again.");
     } finally {
+      call.end();
       setIsPlanning(false);
     }
   };
 
-  const generatePanelImage = async (index: number) => {
-    const panel = panels[index];
-    if (panel.isLoading) return; 
+  // Keep panels 0..index-1 and let the model rewrite everything after them
+  const handleReplanFrom = async (index: number) => {
+    if (!storyPrompt || replanningFrom !== null) return;
+    const later = panels.slice(index);
+    if (later.some(p => p.imageUrl) && !window.confirm(`Re-plan scenes ${index + 1}-${panels.length}? Their images will be discarded.`)) return;
+
+    setReplanningFrom(index);
+    try {
+      const kept = panels.slice(0, index);
+      const descriptions = await continueStoryboardPlan(storyPrompt, kept.map(p => p.description), later.length, call.begin(`Re-planning from scene ${index + 1}...`));
+      setPanels([...kept, ...descriptions.map(makePanel)]);
+      if (descriptions.length < later.length) {
+        alert(`Only ${descriptions.length} of ${later.length} scenes were re-planned. Add the rest by hand or re-plan again.`);
+      }
+    } catch (e) {
+      console.error(e);
+      if (!isAbortError(e)) alert("Could not re-plan the storyboard. Please try again.");
+    } finally {
+      call.end();
+      setReplanningFrom(null);
+    }
+  };
+
+  const updatePanel = (id: string, updates: Partial<StoryboardPanel>) => {
+    setPanels(prev => prev.map(p => p.id === id ? { ...p, ...updates } : p));
+  };
 
-    const newPanels = [...panels];
-    newPanels[index] = { ...panel, isLoading: true };
-    setPanels(newPanels);
+  const insertPanelAt = (index: number) => {
+    if (panels.length >= MAX_PANELS) return;
+    setPanels(prev => [...prev.slice(0, index), makePanel(''), ...prev.slice(index)]);
+  };
+
+  const deletePanel = (id: string) => {
+    if (panels.length <= MIN_PANELS) return;
+    setPanels(prev => prev.filter(p => p.id !== id));
+  };
+
+  const movePanel = (from: number, to: number) => {
+    if (from === to) return;
+    setPanels(prev => {
+      const next = [...prev];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      return next;
+    });
+  };
+
+  // --- Casting ---
+  const cast = customModels.filter(m => castIds.includes(m.id));
+
+  const toggleCast = (modelId: string) => {
+    setCastIds(prev => prev.includes(modelId) ? prev.filter(id => id !== modelId) : [...prev, modelId]);
+  };
+
+  const togglePanelCharacter = (panel: StoryboardPanel, modelId: string) => {
+    const current = panel.characterIds || [];
+    updatePanel(panel.id, {
+      characterIds: current.includes(modelId) ? current.filter(id => id !== modelId) : [...current, modelId],
+    });
+  };
 
+  const renderAvatar = (model: CustomModel) => model.avatar?.startsWith('data:')
+    ? <img src={model.avatar} className="w-full h-full object-cover" />
+    : <span className="text-sm">{model.avatar || "👤"}</span>;
+
+  const addPanelVersion = (id: string, img: string) => {
+    setPanels(prev => withPanelVersion(prev, id, img));
+  };
+
+  // A render finishing after its project was closed goes straight into the saved copy of that project
+  const addVersionToSavedProject = async (ownerId: string, id: string, img: string) => {
+    const project = await updateProject(ownerId, p => ({ ...p, panels: withPanelVersion(p.panels, id, img), lastModified: Date.now() }));
+    if (project) setProjects(prev => [project, ...prev.filter(p => p.id !== project.id)]);
+  };
+
+  const getPanelRefImages = (panel: StoryboardPanel) =>
+    cast.filter(m => panel.characterIds?.includes(m.id)).flatMap(m => (m.referenceImages || []).slice(0, MAX_REFS_PER_CHARACTER));
+
+  const buildPanelPrompt = (panel: StoryboardPanel) => {
+    // We append the main style context to ensure consistency
+    const scene = `${panel.description}. Context: ${storyPrompt}`;
+    const preset = presets.find(p => p.id === presetSelection?.presetId);
+    // A chosen preset replaces the default sketch style
+    let fullPrompt = preset ? `Storyboard panel: ${composePrompt(scene, preset, presetSelection?.values)}` : `Storyboard panel, cinematic sketch style: ${scene}`;
+
+    // Inject visual references for every cast member who appears in this panel
+    const characters = cast.filter(m => panel.characterIds?.includes(m.id));
+    if (characters.length > 0) {
+      const references = characters.map(m => `- ${m.name}: ${m.consistencyContext || 'see reference images'}`).join('\n');
+      fullPrompt = `Character References:\n${references}\n\nScene/Action: ${fullPrompt}\n\nInstruction: Ensure each character's visual details match their reference exactly${getPanelRefImages(panel).length > 0 ? ', using the attached reference images' : ''}.`;
+    }
+    return fullPrompt;
+  };
+
+  // Panels follow the chosen preset's defaults, so they are stored with the project along with the preset itself
+  const presetDefaults = presets.find(p => p.id === presetSelection?.presetId)?.defaults;
+  const panelAspectRatio = presetDefaults?.aspectRatio && (Object.values(ImageAspectRatio) as string[]).includes(presetDefaults.aspectRatio)
+    ? presetDefaults.aspectRatio as ImageAspectRatio
+    : ImageAspectRatio.WIDE; // 16:9 for a cinematic look
+  const panelHighQuality = presetDefaults?.highQuality ?? false;
+
+  const generatePanelImage = async (id: string) => {
+    const panel = panels.find(p => p.id === id);
+    if (!panel || panel.isLoading || !panel.description.trim()) return;
+
+    updatePanel(id, { isLoading: true });
+
+    const ownerId = projectId;
+    const options = call.begin('Rendering scene images...');
     try {
-      // Generate image for this panel
-      // We append the main style context to ensure consistency
-      const fullPrompt = `Storyboard panel, cinematic sketch style: ${panel.description}. Context: ${storyPrompt}`;
-      const img = await generateImage(fullPrompt, ImageAspectRatio.WIDE, false); // Use 16:9 for cinematic look
-      
-      setPanels(prev => prev.map((p, i) => i === index ? { ...p, imageUrl: img, isLoading: false } : p));
+      const img = await enqueueRender(() => generateImage(buildPanelPrompt(panel), panelAspectRatio, panelHighQuality, getPanelRefImages(panel), undefined, options));
+
+      if (mounted.current && projectIdRef.current === ownerId) addPanelVersion(id, img);
+      else await addVersionToSavedProject(ownerId, id, img);
     } catch (e) {
       console.error(e);
-      setPanels(prev => prev.map((p, i) => i === index ? { ...p, isLoading: false } : p));
+      updatePanel(id, { isLoading: false });
+    } finally {
+      call.end();
     }
   };
 
+  const stepVersion = (panel: StoryboardPanel, delta: number) => {
+    const history = panel.imageHistory || [];
+    const next = history[history.indexOf(panel.imageUrl || '') + delta];
+    if (next) updatePanel(panel.id, { imageUrl: next });
+  };
+
+  // Panels that already have an image are left alone; they can be regenerated one at a time
+  const missingImages = panels.filter(p => !p.imageUrl && p.description.trim());
+  const isRendering = panels.some(p => p.isLoading);
+
   const generateAll = () => {
-    panels.forEach((_, index) => generatePanelImage(index));
+    missingImages.forEach(panel => generatePanelImage(panel.id));
   };
 
   return (
     <div className="flex flex-col h-full max-w-6xl mx-auto p-6 space-y-8">
       <div className="flex flex-col gap-6">
-         <div>
-            <h2 className="text-2xl font-bold mb-2 flex items-center gap-2">
-              <Clapperboard className="text-orange-400" /> AI Storyboard
-            </h2>
-            <p className="text-gray-400 text-sm">Visualize your narrative scene by scene.</p>
-          </div>
+         <div className="flex justify-between items-start gap-4">
+           <div>
+              <h2 className="text-2xl font-bold mb-2 flex items-center gap-2">
+                <Clapperboard className="text-orange-400" /> AI Storyboard
+              </h2>
+              <p className="text-gray-400 text-sm">Visualize your narrative scene by scene.</p>
+           </div>
+           <div className="flex items-center gap-2">
+              <input
+                value={projectName}
+                onChange={(e) => setProjectName(e.target.value)}
+                className="bg-transparent hover:bg-gray-800 focus:bg-gray-800 border border-transparent focus:border-gray-700 rounded-lg px-3 py-2 text-right text-white font-medium outline-none"
+                placeholder="Project name"
+              />
+              <button
+                onClick={() => setShowPicker(true)}
+                className="text-sm bg-gray-800 hover:bg-gray-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 whitespace-nowrap"
+              >
+                <FolderOpen className="w-4 h-4" /> Projects ({projects.length})
+              </button>
+           </div>
+         </div>
 
           <div className="flex gap-4 items-start">
              <div className="flex-1">
@@ -73,6 +357,18 @@ export const Storyboard: React.FC = () => {
                   onChange={(e) => setStoryPrompt(e.target.value)}
                 />
              </div>
+             <div className="flex items-center gap-2 bg-gray-800 border border-gray-700 rounded-lg px-3 py-2">
+                <label className="text-xs text-gray-400 whitespace-nowrap">Panels</label>
+                <select
+                  value={panelCount}
+                  onChange={(e) => setPanelCount(Number(e.target.value))}
+                  className="bg-transparent text-white outline-none"
+                >
+                  {Array.from({ length: MAX_PANELS - MIN_PANELS + 1 }, (_, i) => MIN_PANELS + i).map(n => (
+                    <option key={n} value={n} className="bg-gray-800">{n}</option>
+                  ))}
+                </select>
+             </div>
              <button
               onClick={handleCreatePlan}
               disabled={isPlanning || !storyPrompt}
@@ -81,23 +377,102 @@ export const Storyboard: React.FC = () => {
                {isPlanning ? <Loader2 className="animate-spin" /> : "Plan Story"}
              </button>
           </div>
+          <CallStatusLine status={call.status} onCancel={call.cancel} className="text-orange-300" />
+          {/* Cast */}
+          {customModels.length > 0 && (
+            <div className="bg-gray-800/50 p-3 rounded-lg border border-gray-700">
+              <label className="block text-sm font-medium text-gray-300 mb-2 flex items-center gap-2">
+                <Users className="w-4 h-4 text-orange-400" /> Cast (Optional)
+              </label>
+              <div className="flex flex-wrap gap-2">
+                {customModels.map(m => (
+                  <button
+                    key={m.id}
+                    onClick={() => toggleCast(m.id)}
+                    className={`flex items-center gap-2 pl-1 pr-3 py-1 rounded-full border text-sm transition ${
+                      castIds.includes(m.id) ? 'bg-orange-600/20 border-orange-500 text-white' : 'bg-gray-900 border-gray-700 text-gray-400 hover:text-white'
+                    }`}
+                  >
+                    <span className="w-6 h-6 rounded-full overflow-hidden bg-gray-700 flex items-center justify-center">{renderAvatar(m)}</span>
+                    {m.name}
+                  </button>
+                ))}
+              </div>
+              {cast.length > 0 && (
+                <p className="text-xs text-orange-300 mt-2">* Mark who appears in each scene below. Their visual traits and reference images will be applied.</p>
+              )}
+            </div>
+          )}
+          <PresetPicker
+            presets={presets}
+            target="image"
+            selection={presetSelection}
+            onChange={setPresetSelection}
+            onPresetsChanged={() => getAllPresets().then(setPresets)}
+          />
+          {(panelAspectRatio !== ImageAspectRatio.WIDE || panelHighQuality) && (
+            <p className="text-xs text-gray-500 -mt-4">
+              Panels render at {panelAspectRatio}{panelHighQuality ? ', high quality' : ''}, as set by the preset.
+            </p>
+          )}
       </div>
 
       {panels.length > 0 && (
          <div className="space-y-4">
              <div className="flex justify-between items-center">
-                <h3 className="text-lg text-gray-300 font-semibold">Scenes</h3>
-                <button 
-                  onClick={generateAll}
-                  className="text-sm bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded-lg flex items-center gap-2"
-                >
-                  <RefreshCw className="w-4 h-4" /> Generate All Images
-                </button>
+                <h3 className="text-lg text-gray-300 font-semibold">Scenes <span className="text-sm text-gray-500">({panels.length})</span></h3>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => insertPanelAt(panels.length)}
+                    disabled={panels.length >= MAX_PANELS}
+                    className="text-sm bg-gray-800 hover:bg-gray-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <Plus className="w-4 h-4" /> Add Panel
+                  </button>
+                  <button
+                    onClick={generateAll}
+                    disabled={isPlanning || replanningFrom !== null || isRendering || missingImages.length === 0}
+                    className="text-sm bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded-lg flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <RefreshCw className="w-4 h-4" /> Generate Missing Images{missingImages.length > 0 ? ` (${missingImages.length})` : ''}
+                  </button>
+                  <button
+                    onClick={() => setShowExport(true)}
+                    className="text-sm bg-gray-800 hover:bg-gray-700 text-white px-4 py-2 rounded-lg flex items-center gap-2"
+                  >
+                    <FileDown className="w-4 h-4" /> Export
+                  </button>
+                  <button
+                    onClick={() => setShowAnimatic(true)}
+                    disabled={!panels.some(p => p.imageUrl)}
+                    className="text-sm bg-orange-600 hover:bg-orange-500 text-white px-4 py-2 rounded-lg flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <Film className="w-4 h-4" /> Create Animatic
+                  </button>
+                </div>
              </div>
 
              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-                {panels.map((panel, index) => (
-                   <div key={panel.id} className="bg-gray-800 rounded-xl overflow-hidden border border-gray-700 flex flex-col">
+                {panels.map((panel, index) => {
+                   const isReplanned = replanningFrom !== null && index >= replanningFrom;
+                   return (
+                   <div
+                     key={panel.id}
+                     draggable={dragArmedId === panel.id}
+                     onDragStart={() => { dragIndex.current = index; }}
+                     onDragOver={(e) => { e.preventDefault(); setDropIndex(index); }}
+                     onDragLeave={() => setDropIndex(prev => prev === index ? null : prev)}
+                     onDrop={(e) => {
+                       e.preventDefault();
+                       if (dragIndex.current !== null) movePanel(dragIndex.current, index);
+                       dragIndex.current = null;
+                       setDropIndex(null);
+                     }}
+                     onDragEnd={() => { dragIndex.current = null; setDropIndex(null); setDragArmedId(null); }}
+                     className={`bg-gray-800 rounded-xl overflow-hidden border flex flex-col transition ${
+                       dropIndex === index ? 'border-orange-500 ring-2 ring-orange-500/40' : 'border-gray-700'
+                     } ${isReplanned ? 'opacity-50' : ''}`}
+                   >
                       <div className="aspect-video bg-gray-900 relative flex items-center justify-center group">
                          {panel.isLoading ? (
                             <div className="flex flex-col items-center">
@@ -107,38 +482,174 @@ export const Storyboard: React.FC = () => {
                          ) : panel.imageUrl ? (
                             <>
                               <img src={panel.imageUrl} alt={panel.description} className="w-full h-full object-cover" />
-                              <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
+                              <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-2">
                                 <button
-                                  onClick={() => generatePanelImage(index)}
+                                  onClick={() => generatePanelImage(panel.id)}
                                   className="bg-orange-600 hover:bg-orange-500 text-white p-2 rounded-full transform hover:scale-110 transition"
                                   title="Regenerate this panel"
                                 >
                                   <RotateCcw className="w-6 h-6" />
                                 </button>
+                                <button
+                                  onClick={() => setAdjustingPanelId(panel.id)}
+                                  className="bg-gray-700 hover:bg-gray-600 text-white p-2 rounded-full transform hover:scale-110 transition"
+                                  title="Adjust image locally"
+                                >
+                                  <SlidersHorizontal className="w-6 h-6" />
+                                </button>
                               </div>
                             </>
                          ) : (
-                            <button 
-                              onClick={() => generatePanelImage(index)}
-                              className="text-orange-400 hover:text-orange-300 text-sm border border-orange-500/30 bg-orange-500/10 px-4 py-2 rounded-full transition"
+                            <button
+                              onClick={() => generatePanelImage(panel.id)}
+                              disabled={!panel.description.trim()}
+                              className="text-orange-400 hover:text-orange-300 text-sm border border-orange-500/30 bg-orange-500/10 px-4 py-2 rounded-full transition disabled:opacity-40 disabled:cursor-not-allowed"
                             >
                                Generate Image
                             </button>
                          )}
-                         
+
+                         {/* Version Picker */}
+                         {(panel.imageHistory?.length || 0) > 1 && !panel.isLoading && (() => {
+                           const history = panel.imageHistory!;
+                           const current = history.indexOf(panel.imageUrl || '');
+                           return (
+                             <div className="absolute bottom-2 right-2 bg-black/70 text-white text-[10px] rounded-full flex items-center font-mono z-10">
+                               <button onClick={() => stepVersion(panel, -1)} disabled={current <= 0} className="p-1 disabled:opacity-30" title="Previous version">
+                                 <ChevronLeft className="w-3 h-3" />
+                               </button>
+                               v{current + 1}/{history.length}
+                               <button onClick={() => stepVersion(panel, 1)} disabled={current >= history.length - 1} className="p-1 disabled:opacity-30" title="Next version">
+                                 <ChevronRight className="w-3 h-3" />
+                               </button>
+                             </div>
+                           );
+                         })()}
+
                          {/* Scene Number Badge */}
                          <div className="absolute top-2 left-2 bg-black/60 text-white text-xs px-2 py-1 rounded font-mono pointer-events-none">
                            SCENE {index + 1}
                          </div>
+
+                         {/* Drag Handle */}
+                         <div
+                           onMouseDown={() => setDragArmedId(panel.id)}
+                           onMouseUp={() => setDragArmedId(null)}
+                           className="absolute top-2 right-2 bg-black/60 text-gray-300 p-1 rounded cursor-grab active:cursor-grabbing"
+                           title="Drag to reorder"
+                         >
+                           <GripVertical className="w-4 h-4" />
+                         </div>
                       </div>
-                      <div className="p-3">
-                         <p className="text-gray-300 text-xs leading-relaxed line-clamp-4">{panel.description}</p>
+                      <div className="p-3 flex-1 flex flex-col gap-2">
+                         <textarea
+                           value={panel.description}
+                           onChange={(e) => updatePanel(panel.id, { description: e.target.value })}
+                           className="flex-1 w-full bg-transparent hover:bg-gray-900/50 focus:bg-gray-900 border border-transparent focus:border-gray-600 rounded-lg p-1 text-gray-300 text-xs leading-relaxed outline-none resize-none"
+                           rows={4}
+                           placeholder="Describe this scene..."
+                         />
+                         <textarea
+                           value={panel.notes || ''}
+                           onChange={(e) => updatePanel(panel.id, { notes: e.target.value })}
+                           className="w-full bg-transparent hover:bg-gray-900/50 focus:bg-gray-900 border border-transparent focus:border-gray-600 rounded-lg p-1 text-gray-500 italic text-[11px] outline-none resize-none"
+                           rows={1}
+                           placeholder="Notes (optional)"
+                         />
+                         {panel.description.trim() && <FinalPromptPreview prompt={buildPanelPrompt(panel)} />}
+                         {cast.length > 0 && (
+                           <div className="flex flex-wrap gap-1">
+                             {cast.map(m => {
+                               const inPanel = panel.characterIds?.includes(m.id);
+                               return (
+                                 <button
+                                   key={m.id}
+                                   onClick={() => togglePanelCharacter(panel, m.id)}
+                                   className={`w-6 h-6 rounded-full overflow-hidden flex items-center justify-center border-2 transition ${
+                                     inPanel ? 'border-orange-500' : 'border-transparent opacity-40 hover:opacity-80 grayscale'
+                                   }`}
+                                   title={`${m.name} ${inPanel ? 'appears' : 'does not appear'} in this scene`}
+                                 >
+                                   {renderAvatar(m)}
+                                 </button>
+                               );
+                             })}
+                           </div>
+                         )}
+                         <div className="flex justify-between items-center text-gray-500">
+                           <div className="flex gap-1">
+                             <button
+                               onClick={() => insertPanelAt(index + 1)}
+                               disabled={panels.length >= MAX_PANELS}
+                               className="p-1 rounded hover:bg-gray-700 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed"
+                               title="Insert panel after"
+                             >
+                               <Plus className="w-4 h-4" />
+                             </button>
+                             <button
+                               onClick={() => handleReplanFrom(index)}
+                               disabled={index === 0 || !storyPrompt || replanningFrom !== null}
+                               className="p-1 rounded hover:bg-gray-700 hover:text-orange-300 disabled:opacity-30 disabled:cursor-not-allowed"
+                               title={`Re-plan scenes ${index + 1}-${panels.length} from the earlier ones`}
+                             >
+                               {replanningFrom === index ? <Loader2 className="w-4 h-4 animate-spin" /> : <ListRestart className="w-4 h-4" />}
+                             </button>
+                           </div>
+                           <button
+                             onClick={() => deletePanel(panel.id)}
+                             disabled={panels.length <= MIN_PANELS}
+                             className="p-1 rounded hover:bg-gray-700 hover:text-red-400 disabled:opacity-30 disabled:cursor-not-allowed"
+                             title="Delete panel"
+                           >
+                             <Trash2 className="w-4 h-4" />
+                           </button>
+                         </div>
                       </div>
                    </div>
-                ))}
+                   );
+                })}
              </div>
          </div>
       )}
+
+      {showPicker && (
+        <StoryboardProjectPicker
+          projects={projects}
+          activeProjectId={projectId}
+          onOpen={openProject}
+          onDuplicate={handleDuplicateProject}
+          onDelete={handleDeleteProject}
+          onNew={handleNewProject}
+          onClose={() => setShowPicker(false)}
+        />
+      )}
+
+      {showAnimatic && (
+        <AnimaticModal
+          panels={panels}
+          projectName={projectName}
+          clips={animaticClips}
+          setClips={setAnimaticClips}
+          onClose={() => setShowAnimatic(false)}
+        />
+      )}
+
+      {showExport && (
+        <StoryboardExportModal panels={panels} projectName={projectName} onClose={() => setShowExport(false)} />
+      )}
+
+      {(() => {
+        const panel = panels.find(p => p.id === adjustingPanelId);
+        return panel?.imageUrl && (
+          <ImageToolkitModal
+            imageUrl={panel.imageUrl}
+            fileName={`scene-${panels.indexOf(panel) + 1}`}
+            applyLabel="Save as New Version"
+            onApply={(url) => addPanelVersion(panel.id, url)}
+            onClose={() => setAdjustingPanelId(null)}
+          />
+        );
+      })()}
     </div>
   );
-};
\ No newline at end of file
+};
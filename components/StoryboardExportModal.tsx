@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { StoryboardPanel } from '../types';
+import { SHEET_LAYOUTS, SheetLayout, renderStoryboardPdf, renderContactSheet } from '../services/storyboardExport';
+import { downloadBlob } from '../services/mediaUtils';
+import { FileDown, FileText, Image as ImageIcon, Loader2, X } from 'lucide-react';
+
+interface StoryboardExportModalProps {
+  panels: StoryboardPanel[];
+  projectName: string;
+  onClose: () => void;
+}
+
+type ExportFormat = 'pdf' | 'png';
+
+export const StoryboardExportModal: React.FC<StoryboardExportModalProps> = ({ panels, projectName, onClose }) => {
+  const [format, setFormat] = useState<ExportFormat>('pdf');
+  const [layout, setLayout] = useState<SheetLayout>('2x2');
+  const [isExporting, setIsExporting] = useState(false);
+
+  const selectedLayout = SHEET_LAYOUTS.find(l => l.id === layout)!;
+  const pageCount = Math.ceil(panels.length / (selectedLayout.cols * selectedLayout.rows));
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const title = projectName || 'Storyboard';
+      const filename = title.replace(/[^a-z0-9-_]+/gi, '_');
+      if (format === 'pdf') {
+        downloadBlob(await renderStoryboardPdf(panels, layout, title), `${filename}.pdf`);
+      } else {
+        downloadBlob(await renderContactSheet(panels, layout, title), `${filename}-contact-sheet.png`);
+      }
+      onClose();
+    } catch (e) {
+      console.error(e);
+      alert("Failed to export storyboard.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-gray-900 border border-gray-700 rounded-2xl w-full max-w-md shadow-2xl overflow-hidden flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-6 border-b border-gray-800 flex justify-between items-center bg-gradient-to-r from-orange-900/20 to-red-900/20">
+          <h3 className="text-xl font-bold text-white flex items-center gap-2">
+            <FileDown className="text-orange-400" /> Export Storyboard
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Format</label>
+            <div className="grid grid-cols-2 gap-2">
+              <button
+                onClick={() => setFormat('pdf')}
+                className={`p-3 rounded-lg border text-sm flex items-center justify-center gap-2 transition ${format === 'pdf' ? 'bg-orange-600/20 border-orange-500 text-white' : 'bg-gray-800 border-gray-700 text-gray-400 hover:border-gray-500'}`}
+              >
+                <FileText className="w-4 h-4" /> PDF Pages
+              </button>
+              <button
+                onClick={() => setFormat('png')}
+                className={`p-3 rounded-lg border text-sm flex items-center justify-center gap-2 transition ${format === 'png' ? 'bg-orange-600/20 border-orange-500 text-white' : 'bg-gray-800 border-gray-700 text-gray-400 hover:border-gray-500'}`}
+              >
+                <ImageIcon className="w-4 h-4" /> PNG Contact Sheet
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Layout</label>
+            <div className="grid grid-cols-3 gap-2">
+              {SHEET_LAYOUTS.map(l => (
+                <button
+                  key={l.id}
+                  onClick={() => setLayout(l.id)}
+                  className={`p-2 rounded-lg border text-sm transition ${layout === l.id ? 'bg-orange-600/20 border-orange-500 text-white' : 'bg-gray-800 border-gray-700 text-gray-400 hover:border-gray-500'}`}
+                >
+                  {l.label}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-2">
+              {format === 'pdf'
+                ? `${panels.length} scenes on ${pageCount} A4 landscape page${pageCount === 1 ? '' : 's'}.`
+                : `${panels.length} scenes in ${selectedLayout.cols} column${selectedLayout.cols === 1 ? '' : 's'} on one image.`}
+            </p>
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-gray-800 flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 rounded-lg text-sm font-medium text-gray-400 hover:text-white transition">
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={isExporting || panels.length === 0}
+            className="bg-orange-600 hover:bg-orange-500 text-white px-4 py-2 rounded-lg text-sm font-bold flex items-center gap-2 disabled:opacity-50"
+          >
+            {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileDown className="w-4 h-4" />}
+            Export
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
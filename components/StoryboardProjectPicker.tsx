@@ -0,0 +1,85 @@
+import React from 'react';
+import { StoryboardProject } from '../types';
+import { FolderOpen, Plus, Copy, Trash2, Clapperboard, X } from 'lucide-react';
+
+interface StoryboardProjectPickerProps {
+  projects: StoryboardProject[];
+  activeProjectId: string;
+  onOpen: (project: StoryboardProject) => void;
+  onDuplicate: (project: StoryboardProject) => void;
+  onDelete: (id: string) => void;
+  onNew: () => void;
+  onClose: () => void;
+}
+
+export const StoryboardProjectPicker: React.FC<StoryboardProjectPickerProps> = ({
+  projects,
+  activeProjectId,
+  onOpen,
+  onDuplicate,
+  onDelete,
+  onNew,
+  onClose,
+}) => {
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-gray-900 border border-gray-700 rounded-2xl w-full max-w-3xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh]" onClick={(e) => e.stopPropagation()}>
+        <div className="p-6 border-b border-gray-800 flex justify-between items-center bg-gradient-to-r from-orange-900/20 to-red-900/20">
+          <h3 className="text-xl font-bold text-white flex items-center gap-2">
+            <FolderOpen className="text-orange-400" /> Storyboard Projects
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4">
+          <div
+            onClick={onNew}
+            className="border-2 border-dashed border-gray-700 hover:border-orange-500 rounded-xl flex flex-col items-center justify-center cursor-pointer min-h-[160px] text-gray-500 hover:text-orange-300 transition"
+          >
+            <Plus className="w-8 h-8 mb-2" />
+            <span className="text-sm font-medium">New Project</span>
+          </div>
+
+          {projects.map(project => {
+            const cover = project.panels.find(p => p.imageUrl)?.imageUrl;
+            return (
+              <div
+                key={project.id}
+                className={`group bg-gray-800 rounded-xl overflow-hidden border flex flex-col ${project.id === activeProjectId ? 'border-orange-500' : 'border-gray-700 hover:border-gray-500'}`}
+              >
+                <div className="aspect-video bg-gray-900 cursor-pointer relative" onClick={() => onOpen(project)}>
+                  {cover ? (
+                    <img src={cover} className="w-full h-full object-cover" />
+                  ) : (
+                    <div className="w-full h-full flex items-center justify-center">
+                      <Clapperboard className="w-8 h-8 text-gray-700" />
+                    </div>
+                  )}
+                  {project.id === activeProjectId && (
+                    <span className="absolute top-2 left-2 bg-orange-600 text-white text-[10px] px-2 py-0.5 rounded-full">Open</span>
+                  )}
+                </div>
+                <div className="p-3 flex items-start gap-2">
+                  <div className="flex-1 min-w-0 cursor-pointer" onClick={() => onOpen(project)}>
+                    <p className="text-sm font-semibold text-white truncate">{project.name}</p>
+                    <p className="text-[10px] text-gray-500">
+                      {project.panels.length} panels · {new Date(project.lastModified).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <button onClick={() => onDuplicate(project)} className="text-gray-500 hover:text-white p-1" title="Duplicate">
+                    <Copy className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => onDelete(project.id)} className="text-gray-500 hover:text-red-400 p-1" title="Delete">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
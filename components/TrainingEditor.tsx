@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { CustomModel, TrainingExample } from '../types';
+import { optimizeSystemInstruction } from '../services/geminiService';
+import { Loader2, Plus, Trash2, Sparkles, Terminal, MessagesSquare, Undo2 } from 'lucide-react';
+
+interface TrainingEditorProps {
+  model: CustomModel;
+  onChange: (updates: Partial<CustomModel>) => void;
+}
+
+export const TrainingEditor: React.FC<TrainingEditorProps> = ({ model, onChange }) => {
+  const [isOptimizing, setIsOptimizing] = useState(false);
+  // Text before the last optimization, so it can be restored
+  const [previousInstruction, setPreviousInstruction] = useState<string | null>(null);
+
+  const handleOptimize = async () => {
+    if (!model.systemInstruction.trim()) return;
+    setIsOptimizing(true);
+    try {
+      const optimized = await optimizeSystemInstruction(model.systemInstruction);
+      setPreviousInstruction(model.systemInstruction);
+      onChange({ systemInstruction: optimized });
+    } catch (e) {
+      console.error(e);
+      alert("Failed to optimize instruction. Please try again.");
+    } finally {
+      setIsOptimizing(false);
+    }
+  };
+
+  const handleUndoOptimize = () => {
+    if (previousInstruction === null) return;
+    onChange({ systemInstruction: previousInstruction });
+    setPreviousInstruction(null);
+  };
+
+  const addExample = () => {
+    const example: TrainingExample = { id: `${Date.now()}`, input: '', output: '' };
+    onChange({ examples: [...model.examples, example] });
+  };
+
+  const updateExample = (id: string, updates: Partial<TrainingExample>) => {
+    onChange({ examples: model.examples.map(ex => ex.id === id ? { ...ex, ...updates } : ex) });
+  };
+
+  const removeExample = (id: string) => {
+    onChange({ examples: model.examples.filter(ex => ex.id !== id) });
+  };
+
+  return (
+    <div className="p-8 space-y-8">
+      {/* System Instruction */}
+      <div>
+        <div className="flex justify-between items-center mb-2">
+          <label className="text-sm font-semibold text-gray-300 flex items-center gap-2">
+            <Terminal className="w-4 h-4 text-yellow-400" /> System Instruction
+          </label>
+          <div className="flex items-center gap-2">
+            {previousInstruction !== null && !isOptimizing && (
+              <button onClick={handleUndoOptimize} className="text-xs text-gray-400 hover:text-white flex items-center gap-1 px-2 py-1">
+                <Undo2 className="w-3 h-3" /> Undo
+              </button>
+            )}
+            <button
+              onClick={handleOptimize}
+              disabled={isOptimizing || !model.systemInstruction.trim()}
+              className="bg-yellow-600/20 hover:bg-yellow-600 text-yellow-300 hover:text-white px-3 py-1 rounded-lg text-xs font-medium transition flex items-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isOptimizing ? <Loader2 className="w-3 h-3 animate-spin" /> : <Sparkles className="w-3 h-3" />}
+              Optimize
+            </button>
+          </div>
+        </div>
+        <textarea
+          value={model.systemInstruction}
+          onChange={(e) => { setPreviousInstruction(null); onChange({ systemInstruction: e.target.value }); }}
+          className="w-full h-40 bg-gray-800 border border-gray-700 rounded-xl p-4 text-sm text-gray-300 outline-none focus:ring-2 focus:ring-yellow-500/50 resize-none leading-relaxed"
+          placeholder="Describe the character's personality, backstory and voice. (e.g. 'You are a weary cyberpunk detective who speaks in clipped noir monologues...')."
+        />
+        <p className="text-xs text-gray-500 mt-2">
+          Sent as the system instruction whenever you chat with this character.
+        </p>
+      </div>
+
+      {/* Few-shot Examples */}
+      <div>
+        <div className="flex justify-between items-center mb-2">
+          <label className="text-sm font-semibold text-gray-300 flex items-center gap-2">
+            <MessagesSquare className="w-4 h-4 text-yellow-400" /> Training Examples ({model.examples.length})
+          </label>
+          <button
+            onClick={addExample}
+            className="bg-gray-800 hover:bg-gray-700 text-gray-300 hover:text-white px-3 py-1 rounded-lg text-xs font-medium transition flex items-center gap-1"
+          >
+            <Plus className="w-3 h-3" /> Add Example
+          </button>
+        </div>
+        <p className="text-xs text-gray-500 mb-3">
+          Example exchanges teach the character how to respond. They are replayed before every conversation.
+        </p>
+
+        {model.examples.length === 0 ? (
+          <div className="border-2 border-dashed border-gray-700 rounded-xl p-6 text-center text-sm text-gray-500">
+            No examples yet.
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {model.examples.map((example, index) => (
+              <div key={example.id} className="bg-gray-800/50 border border-gray-700 rounded-xl p-4 space-y-2">
+                <div className="flex justify-between items-center">
+                  <span className="text-xs font-mono text-gray-500">EXAMPLE {index + 1}</span>
+                  <button onClick={() => removeExample(example.id)} className="text-gray-500 hover:text-red-400">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+                <div>
+                  <label className="text-[10px] text-gray-400 uppercase font-bold tracking-wider">User says</label>
+                  <textarea
+                    value={example.input}
+                    onChange={(e) => updateExample(example.id, { input: e.target.value })}
+                    className="w-full bg-gray-900 border border-gray-700 rounded-lg p-2 text-sm text-gray-200 outline-none focus:ring-2 focus:ring-yellow-500/50 resize-none"
+                    rows={2}
+                  />
+                </div>
+                <div>
+                  <label className="text-[10px] text-gray-400 uppercase font-bold tracking-wider">Character replies</label>
+                  <textarea
+                    value={example.output}
+                    onChange={(e) => updateExample(example.id, { output: e.target.value })}
+                    className="w-full bg-gray-900 border border-gray-700 rounded-lg p-2 text-sm text-gray-200 outline-none focus:ring-2 focus:ring-yellow-500/50 resize-none"
+                    rows={3}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
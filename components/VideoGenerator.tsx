@@ -1,27 +1,54 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { generateVideo } from '../services/geminiService';
-import { getAllModels } from '../services/storageService';
-import { VideoResolution, CustomModel, GeneratedMedia } from '../types';
-import { Loader2, Download, Video, Film, User, Info, Clock, Upload, X } from 'lucide-react';
+import { generateVideoClip, extendVideo, isAbortError, CallOptions } from '../services/geminiService';
+import { getAllModels, getAllMedia, getAllPresets } from '../services/storageService';
+import { addToLibrary, toGeneratedMedia, captureVideoFrame, loadVideo, loadImage, downloadBlob, downloadMedia } from '../services/mediaUtils';
+import { stitchClips, getStitchedExtension } from '../services/videoStitcher';
+import { composePrompt } from '../services/promptPresets';
+import { getSettings } from '../services/settingsService';
+import { VideoResolution, CustomModel, GeneratedMedia, PromptPreset, PresetSelection, VideoShot, ShotSettings } from '../types';
+import { PresetPicker } from './PresetPicker';
+import { FinalPromptPreview } from './FinalPromptPreview';
+import { PromptEnhancer } from './PromptEnhancer';
+import { ShotList } from './ShotList';
+import { FramePickerModal } from './FramePickerModal';
+import { useCallStatus, CallStatusLine } from './CallStatus';
+import { Loader2, Download, Video, Film, User, Info, Clock, Upload, X, FastForward, Images, ArrowDown } from 'lucide-react';
+
+type FrameSlot = 'start' | 'end';
 
 export const VideoGenerator: React.FC = () => {
   const [prompt, setPrompt] = useState('');
-  const [resolution, setResolution] = useState<VideoResolution>(VideoResolution.HD);
-  const [aspectRatio, setAspectRatio] = useState('16:9');
+  const [resolution, setResolution] = useState<VideoResolution>(() => getSettings().videoResolution);
+  const [aspectRatio, setAspectRatio] = useState<string>(() => getSettings().videoAspectRatio);
   const [loading, setLoading] = useState(false);
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
 
-  // Image to Video State
+  // Image to Video State (an end frame switches to interpolation between the two)
   const [startImage, setStartImage] = useState<string | null>(null);
+  const [endImage, setEndImage] = useState<string | null>(null);
+  const [frameRatios, setFrameRatios] = useState<Partial<Record<FrameSlot, string>>>({});
+  const [pickingFrame, setPickingFrame] = useState<FrameSlot | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const endFileInputRef = useRef<HTMLInputElement>(null);
 
   // Custom Model Integration
   const [customModels, setCustomModels] = useState<CustomModel[]>([]);
   const [selectedModelId, setSelectedModelId] = useState<string>('');
 
+  // Style Presets
+  const [presets, setPresets] = useState<PromptPreset[]>([]);
+  const [presetSelection, setPresetSelection] = useState<PresetSelection | null>(null);
+
+  // Shot Sequence: the current video plus any extensions chained onto it
+  const [shots, setShots] = useState<VideoShot[]>([]);
+  const [shotBusy, setShotBusy] = useState(false);
+  const call = useCallStatus();
+  const [exportProgress, setExportProgress] = useState<number | null>(null);
+
   // History State
   const [history, setHistory] = useState<GeneratedMedia[]>([]);
+  const restoredUrls = useRef<string[]>([]); // Object URLs made for restored items, released on unmount
 
   useEffect(() => {
     // 1. Load models
@@ -29,7 +56,18 @@ export const VideoGenerator: React.FC = () => {
       setCustomModels(models.filter(m => (m.consistencyContext && m.consistencyContext.length > 5) || (m.referenceImages && m.referenceImages.length > 0)));
     });
 
-    // 2. Check for auto-selection from Model Trainer
+    getAllPresets().then(setPresets);
+
+    // 2. Restore previous videos from the media library, after anything generated while it loaded
+    let unmounted = false;
+    getAllMedia().then(items => {
+      if (unmounted) return;
+      const loaded = items.filter(i => i.source === 'video_generator').map(toGeneratedMedia);
+      restoredUrls.current = loaded.map(item => item.url);
+      setHistory(prev => [...prev, ...loaded.filter(item => !prev.some(p => p.id === item.id))]);
+    });
+
+    // 3. Check for auto-selection from Model Trainer
     const autoSelectId = localStorage.getItem('omni_active_model_id');
     const autoSelectType = localStorage.getItem('omni_active_model_type');
     
@@ -39,68 +77,276 @@ export const VideoGenerator: React.FC = () => {
       localStorage.removeItem('omni_active_model_id');
       localStorage.removeItem('omni_active_model_type');
     }
+
+    return () => {
+      unmounted = true;
+      restoredUrls.current.forEach(url => URL.revokeObjectURL(url));
+    };
   }, []);
 
+  // Preset style first, then the character wrapper around it
+  const buildFinalPrompt = () => {
+    const preset = presets.find(p => p.id === presetSelection?.presetId);
+    const styled = prompt ? composePrompt(prompt, preset, presetSelection?.values) : prompt;
+    const model = selectedModelId && !startImage ? customModels.find(m => m.id === selectedModelId) : undefined;
+
+    // Apply Character Context (Only if no start image is used, or mixed usage)
+    if (model && model.consistencyContext) {
+      return `Cinematic shot. Character Visuals: ${model.consistencyContext}. Action: ${styled}`;
+    }
+    return styled;
+  };
+
+  const handleApplyPresetDefaults = (defaults: NonNullable<PromptPreset['defaults']>) => {
+    if (defaults.aspectRatio === '16:9' || defaults.aspectRatio === '9:16') setAspectRatio(defaults.aspectRatio);
+    if (defaults.resolution) setResolution(defaults.resolution);
+  };
+
   const handleGenerate = async () => {
     if (!prompt && !startImage) return;
     setLoading(true);
     setVideoUrl(null);
     try {
-      let finalPrompt = prompt;
+      const finalPrompt = buildFinalPrompt();
       let refImages: string[] | undefined = undefined;
+      const model = selectedModelId && !startImage ? customModels.find(m => m.id === selectedModelId) : undefined;
 
-      // Apply Character Context (Only if no start image is used, or mixed usage)
-      if (selectedModelId && !startImage) {
-        const model = customModels.find(m => m.id === selectedModelId);
-        if (model) {
-           if (model.consistencyContext) {
-              finalPrompt = `Cinematic shot. Character Visuals: ${model.consistencyContext}. Action: ${prompt}`;
-           }
-           if (model.referenceImages && model.referenceImages.length > 0) {
-              refImages = model.referenceImages;
-           }
-        }
+      if (model && model.referenceImages && model.referenceImages.length > 0) {
+        refImages = model.referenceImages;
       }
 
-      const url = await generateVideo(finalPrompt, resolution, aspectRatio, refImages, startImage || undefined);
+      const settings: ShotSettings = {
+        resolution: effectiveResolution,
+        aspectRatio: effectiveAspectRatio,
+        referenceImages: refImages,
+        startImage: startImage || undefined,
+        endImage: (startImage && endImage) || undefined,
+      };
+      const { url, uri, mediaId } = await generateVideoClip(
+        finalPrompt,
+        settings.resolution,
+        settings.aspectRatio,
+        settings.referenceImages,
+        settings.startImage,
+        settings.endImage,
+        { title: prompt || (isInterpolating ? "Frame Interpolation" : "Image Animation"), modelId: model?.id, modelName: model?.name },
+        call.begin('Generating video with Veo...')
+      );
       setVideoUrl(url);
 
-      // Add to history
+      // Add to history; the job manager has already filed it in the library
       const newItem: GeneratedMedia = {
-        id: Date.now().toString(),
+        id: mediaId || Date.now().toString(),
         type: 'video',
         url: url,
-        prompt: prompt || "Image Animation",
+        prompt: prompt || (isInterpolating ? "Frame Interpolation" : "Image Animation"),
         timestamp: Date.now()
       };
       setHistory(prev => [newItem, ...prev]);
+      setShots([{ id: newItem.id, url, uri, prompt: newItem.prompt, settings }]);
 
-    } catch (error) {
+    } catch (error: any) {
       console.error(error);
-      alert('Failed to generate video. Note: Veo requires a paid project.');
+      // Cancelled here or from the jobs tray
+      if (!isAbortError(error)) alert('Failed to generate video. Note: Veo requires a paid project.');
     } finally {
+      call.end();
       setLoading(false);
     }
   };
 
-  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const updateShot = (id: string, updates: Partial<VideoShot>) => {
+    setShots(prev => prev.map(s => s.id === id ? { ...s, ...updates } : s));
+  };
+
+  const moveShot = (from: number, to: number) => {
+    if (to < 0 || to >= shots.length) return;
+    setShots(prev => {
+      const next = [...prev];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      return next;
+    });
+  };
+
+  // Turn whatever is in the preview into the first shot of a new sequence
+  const startSequence = () => {
+    if (!videoUrl || shots.some(s => s.url === videoUrl)) return;
+    if (shots.length > 1 && !window.confirm("Start a new sequence from this video? The current shot list will be replaced.")) return;
+    const item = history.find(h => h.url === videoUrl);
+    setShots([{ id: item?.id || Date.now().toString(), url: videoUrl, prompt: item?.prompt || prompt }]);
+  };
+
+  // Shots started from a history item don't know their settings, so they take what the form would use now
+  const getShotSettings = (shot: VideoShot): ShotSettings =>
+    shot.settings || { resolution: effectiveResolution, aspectRatio: effectiveAspectRatio };
+
+  // A continuation keeps the format of the shot it extends, but none of its input images
+  const continueFrom = async (source: VideoShot, shotPrompt: string, options: CallOptions) => {
+    const { resolution, aspectRatio } = getShotSettings(source);
+    const lastFrame = await captureVideoFrame(source.url, 'last');
+    const clip = await extendVideo(shotPrompt, { uri: source.uri, lastFrame }, resolution, aspectRatio, { title: shotPrompt }, options);
+    // Native extensions replay the source first; skip it so each shot holds only new footage
+    const startSec = clip.includesSource ? (await loadVideo(source.url)).duration : undefined;
+    return { url: clip.url, uri: clip.uri, mediaId: clip.mediaId, startSec, settings: { resolution, aspectRatio } };
+  };
+
+  // Generated shots are filed in the library by the job manager; only the history needs updating
+  const addShotToHistory = (id: string, url: string, shotPrompt: string) => {
+    const newItem: GeneratedMedia = { id, type: 'video', url, prompt: shotPrompt, timestamp: Date.now() };
+    setHistory(prev => [newItem, ...prev]);
+    return newItem;
+  };
+
+  const handleExtend = async (shotPrompt: string) => {
+    const source = shots[shots.length - 1];
+    if (!source) return;
+    const id = Date.now().toString();
+    setShots(prev => [...prev, { id, url: '', prompt: shotPrompt, isLoading: true }]);
+    setShotBusy(true);
+    try {
+      const { mediaId, ...clip } = await continueFrom(source, shotPrompt, call.begin('Extending the sequence...'));
+      updateShot(id, { ...clip, isLoading: false });
+      setVideoUrl(clip.url);
+      addShotToHistory(mediaId || id, clip.url, shotPrompt);
+    } catch (error: any) {
+      console.error(error);
+      setShots(prev => prev.filter(s => s.id !== id));
+      if (!isAbortError(error)) alert('Failed to extend the video. Please try again.');
+    } finally {
+      call.end();
+      setShotBusy(false);
+    }
+  };
+
+  // The first shot is regenerated from scratch; later ones continue from whatever now precedes them
+  const handleRegenerateShot = async (id: string) => {
+    const index = shots.findIndex(s => s.id === id);
+    const shot = shots[index];
+    if (!shot) return;
+    updateShot(id, { isLoading: true });
+    setShotBusy(true);
+    try {
+      const options = call.begin(`Regenerating shot ${index + 1}...`);
+      const settings = getShotSettings(shot);
+      const { mediaId, ...clip } = index === 0
+        ? {
+            ...(await generateVideoClip(
+              shot.prompt, settings.resolution, settings.aspectRatio, settings.referenceImages, settings.startImage, settings.endImage, { title: shot.prompt }, options
+            )),
+            startSec: undefined,
+            settings,
+          }
+        : await continueFrom(shots[index - 1], shot.prompt, options);
+      updateShot(id, { ...clip, isLoading: false });
+      setVideoUrl(clip.url);
+      addShotToHistory(mediaId || Date.now().toString(), clip.url, shot.prompt);
+    } catch (error: any) {
+      console.error(error);
+      updateShot(id, { isLoading: false });
+      if (!isAbortError(error)) alert('Failed to regenerate the shot. Please try again.');
+    } finally {
+      call.end();
+      setShotBusy(false);
+    }
+  };
+
+  const handleExportSequence = async () => {
+    setExportProgress(0);
+    try {
+      const blob = await stitchClips(
+        shots.map(s => ({ url: s.url, startSec: s.startSec })),
+        { transition: 'cut', transitionSec: 0, onProgress: setExportProgress }
+      );
+      downloadBlob(blob, `video-sequence-${Date.now()}.${getStitchedExtension(blob)}`);
+      const url = URL.createObjectURL(blob);
+      setVideoUrl(url);
+      addToLibrary(addShotToHistory(Date.now().toString(), url, shots.map(s => s.prompt).join(' / ')), 'video_generator');
+    } catch (error) {
+      console.error(error);
+      alert('Failed to export the sequence.');
+    } finally {
+      setExportProgress(null);
+    }
+  };
+
+  // Veo only outputs 16:9 or 9:16, so each frame is classified by its orientation
+  const setFrame = async (slot: FrameSlot, dataUrl: string) => {
+    try {
+      const img = await loadImage(dataUrl);
+      setFrameRatios(prev => ({ ...prev, [slot]: img.naturalWidth >= img.naturalHeight ? '16:9' : '9:16' }));
+      (slot === 'start' ? setStartImage : setEndImage)(dataUrl);
+    } catch (e) {
+      console.error(e);
+      alert("Could not read that image.");
+    }
+  };
+
+  const clearFrame = (slot: FrameSlot) => {
+    // An end frame means nothing without a start frame
+    if (slot === 'start') setStartImage(null);
+    setEndImage(null);
+  };
+
+  const handleImageUpload = (slot: FrameSlot) => (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       const file = e.target.files[0];
       const reader = new FileReader();
-      reader.onload = () => {
-        const res = reader.result as string;
-        // Strip prefix for logic if needed, but display needs it. 
-        // Service expects base64 without prefix usually? 
-        // Actually generateVideo logic handles conversion or expects base64 bytes depending on implementation.
-        // Let's assume service handles raw base64 string.
-        setStartImage(res.split(',')[1]); 
-      };
+      reader.onload = () => setFrame(slot, reader.result as string);
       reader.readAsDataURL(file);
     }
+    e.target.value = '';
   };
 
   const selectedModel = customModels.find(m => m.id === selectedModelId);
-  const hasRefImages = selectedModel?.referenceImages && selectedModel.referenceImages.length > 0;
+  const hasRefImages = !startImage && selectedModel?.referenceImages && selectedModel.referenceImages.length > 0;
+
+  // Interpolation needs 720p and both frames in the same orientation, which also fixes the aspect ratio
+  const isInterpolating = !!startImage && !!endImage;
+  const framesMismatch = isInterpolating && frameRatios.start !== frameRatios.end;
+  const isLockedTo720 = hasRefImages || isInterpolating;
+  const effectiveResolution = isLockedTo720 ? VideoResolution.HD : resolution;
+  const effectiveAspectRatio = hasRefImages ? '16:9' : isInterpolating ? frameRatios.start! : aspectRatio;
+
+  const renderFrameSlot = (slot: FrameSlot) => {
+    const image = slot === 'start' ? startImage : endImage;
+    const inputRef = slot === 'start' ? fileInputRef : endFileInputRef;
+    if (image) {
+      return (
+        <div className="relative h-32 w-full rounded-lg overflow-hidden border border-pink-500/50 group">
+          <img src={image} className="w-full h-full object-cover" />
+          <button 
+            onClick={() => clearFrame(slot)}
+            className="absolute top-2 right-2 bg-black/60 p-1 rounded-full text-white hover:bg-red-500 transition"
+          >
+            <X className="w-4 h-4" />
+          </button>
+          <div className="absolute bottom-0 left-0 right-0 bg-black/60 text-xs p-1 text-center text-white">
+            {slot === 'end' ? 'End Frame' : isInterpolating ? 'Start Frame' : 'Animation Mode Active'} · {frameRatios[slot]}
+          </div>
+        </div>
+      );
+    }
+    return (
+      <div className="flex gap-2">
+        <div 
+          onClick={() => inputRef.current?.click()}
+          className="h-20 flex-1 border-2 border-dashed border-gray-700 hover:border-pink-500 rounded-lg flex flex-col items-center justify-center cursor-pointer text-gray-500 hover:text-pink-400 transition bg-gray-800/30"
+        >
+          <Upload className="w-5 h-5 mb-1" />
+          <span className="text-xs">{slot === 'start' ? 'Upload Photo to Animate' : 'Upload End Frame'}</span>
+          <input ref={inputRef} type="file" accept="image/*" className="hidden" onChange={handleImageUpload(slot)} />
+        </div>
+        <button
+          onClick={() => setPickingFrame(slot)}
+          className="h-20 w-24 border-2 border-dashed border-gray-700 hover:border-pink-500 rounded-lg flex flex-col items-center justify-center text-gray-500 hover:text-pink-400 transition bg-gray-800/30"
+        >
+          <Images className="w-5 h-5 mb-1" />
+          <span className="text-xs">Pick</span>
+        </button>
+      </div>
+    );
+  };
 
   return (
     <div className="flex flex-col h-full max-w-5xl mx-auto p-6 space-y-8">
@@ -118,28 +364,21 @@ export const VideoGenerator: React.FC = () => {
              {/* Image to Video Upload */}
              <div className="space-y-2">
                <label className="block text-sm font-medium text-gray-300">Start Image (Animate)</label>
-               {startImage ? (
-                 <div className="relative h-32 w-full rounded-lg overflow-hidden border border-pink-500/50 group">
-                    <img src={`data:image/png;base64,${startImage}`} className="w-full h-full object-cover" />
-                    <button 
-                      onClick={() => setStartImage(null)}
-                      className="absolute top-2 right-2 bg-black/60 p-1 rounded-full text-white hover:bg-red-500 transition"
-                    >
-                      <X className="w-4 h-4" />
-                    </button>
-                    <div className="absolute bottom-0 left-0 right-0 bg-black/60 text-xs p-1 text-center text-white">
-                       Animation Mode Active
-                    </div>
-                 </div>
-               ) : (
-                 <div 
-                   onClick={() => fileInputRef.current?.click()}
-                   className="h-20 w-full border-2 border-dashed border-gray-700 hover:border-pink-500 rounded-lg flex flex-col items-center justify-center cursor-pointer text-gray-500 hover:text-pink-400 transition bg-gray-800/30"
-                 >
-                   <Upload className="w-5 h-5 mb-1" />
-                   <span className="text-xs">Upload Photo to Animate</span>
-                   <input ref={fileInputRef} type="file" accept="image/*" className="hidden" onChange={handleImageUpload} />
-                 </div>
+               {renderFrameSlot('start')}
+               {startImage && (
+                 <>
+                   <div className="flex items-center justify-center text-gray-600"><ArrowDown className="w-4 h-4" /></div>
+                   <label className="block text-sm font-medium text-gray-300">End Frame (Optional)</label>
+                   {renderFrameSlot('end')}
+                 </>
+               )}
+               {isInterpolating && (
+                 <p className={`text-[10px] flex items-center gap-1 ${framesMismatch ? 'text-red-400' : 'text-green-400'}`}>
+                   <Info className="w-3 h-3" />
+                   {framesMismatch
+                     ? 'Start and end frames must both be landscape or both portrait.'
+                     : `Veo will generate the motion between the two frames. (Locks to 720p ${frameRatios.start})`}
+                 </p>
                )}
              </div>
 
@@ -185,18 +424,31 @@ export const VideoGenerator: React.FC = () => {
                 value={prompt}
                 onChange={(e) => setPrompt(e.target.value)}
               />
+              <div className="mt-1 space-y-1">
+                <PromptEnhancer idea={prompt} target="video" onSelect={setPrompt} />
+                <FinalPromptPreview prompt={buildFinalPrompt()} />
+              </div>
             </div>
 
+            <PresetPicker
+              presets={presets}
+              target="video"
+              selection={presetSelection}
+              onChange={setPresetSelection}
+              onApplyDefaults={handleApplyPresetDefaults}
+              onPresetsChanged={() => getAllPresets().then(setPresets)}
+            />
+
             <div>
               <label className="block text-sm font-medium text-gray-300 mb-2">Resolution</label>
               <div className="grid grid-cols-2 gap-2">
                 {[VideoResolution.HD, VideoResolution.FHD].map((res) => (
                   <button
                     key={res}
-                    onClick={() => !hasRefImages && setResolution(res)} 
-                    disabled={hasRefImages && res !== VideoResolution.HD}
+                    onClick={() => !isLockedTo720 && setResolution(res)} 
+                    disabled={isLockedTo720 && res !== VideoResolution.HD}
                     className={`p-2 text-sm rounded-md border ${
-                      resolution === res
+                      effectiveResolution === res
                         ? 'bg-pink-600 border-pink-500 text-white'
                         : 'bg-gray-800 border-gray-700 text-gray-400 hover:bg-gray-700 disabled:opacity-30 disabled:cursor-not-allowed'
                     }`}
@@ -210,9 +462,9 @@ export const VideoGenerator: React.FC = () => {
             <div>
                <label className="block text-sm font-medium text-gray-300 mb-2">Aspect Ratio</label>
                <select 
-                value={aspectRatio}
+                value={effectiveAspectRatio}
                 onChange={(e) => setAspectRatio(e.target.value)}
-                disabled={hasRefImages}
+                disabled={hasRefImages || isInterpolating}
                 className="w-full bg-gray-800 border border-gray-700 rounded-lg p-2 text-white disabled:opacity-50"
                >
                  <option value="16:9">Landscape (16:9)</option>
@@ -222,7 +474,7 @@ export const VideoGenerator: React.FC = () => {
 
             <button
               onClick={handleGenerate}
-              disabled={loading || (!prompt && !startImage)}
+              disabled={loading || (!prompt && !startImage) || framesMismatch}
               className="w-full bg-gradient-to-r from-pink-600 to-rose-600 hover:from-pink-500 hover:to-rose-500 text-white font-bold py-3 px-6 rounded-lg shadow-lg transform transition hover:scale-[1.02] disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
             >
               {loading ? <Loader2 className="animate-spin" /> : <Video />}
@@ -236,7 +488,7 @@ export const VideoGenerator: React.FC = () => {
           {loading ? (
             <div className="text-center space-y-4 px-8">
               <Loader2 className="w-12 h-12 text-pink-500 animate-spin mx-auto" />
-              <p className="text-pink-300 font-medium">Generating video with Veo...</p>
+              <CallStatusLine status={call.status} onCancel={call.cancel} className="text-pink-300 font-medium" />
               <p className="text-gray-500 text-sm">This may take a minute. Please wait.</p>
             </div>
           ) : videoUrl ? (
@@ -248,13 +500,22 @@ export const VideoGenerator: React.FC = () => {
                 loop 
                 className="max-w-full max-h-[500px] rounded-lg shadow-2xl" 
               />
-              <a
-                href={videoUrl}
-                download="generated-video.mp4"
-                className="mt-4 bg-gray-800 hover:bg-gray-700 text-white py-2 px-6 rounded-full font-bold flex items-center gap-2 transition"
-              >
-                <Download className="w-4 h-4" /> Download MP4
-              </a>
+              <div className="mt-4 flex gap-2">
+                <button
+                  onClick={() => downloadMedia(videoUrl, 'generated-video', 'video')}
+                  className="bg-gray-800 hover:bg-gray-700 text-white py-2 px-6 rounded-full font-bold flex items-center gap-2 transition"
+                >
+                  <Download className="w-4 h-4" /> Download
+                </button>
+                {!shots.some(s => s.url === videoUrl) && (
+                  <button
+                    onClick={startSequence}
+                    className="bg-pink-600 hover:bg-pink-500 text-white py-2 px-6 rounded-full font-bold flex items-center gap-2 transition"
+                  >
+                    <FastForward className="w-4 h-4" /> Extend
+                  </button>
+                )}
+              </div>
             </div>
           ) : (
             <div className="text-gray-600 flex flex-col items-center">
@@ -267,6 +528,31 @@ export const VideoGenerator: React.FC = () => {
         </div>
       </div>
 
+      {pickingFrame && (
+        <FramePickerModal
+          title={pickingFrame === 'start' ? 'Pick Start Frame' : 'Pick End Frame'}
+          onPick={(dataUrl) => setFrame(pickingFrame, dataUrl)}
+          onClose={() => setPickingFrame(null)}
+        />
+      )}
+
+      {shotBusy && <CallStatusLine status={call.status} onCancel={call.cancel} className="text-pink-300" />}
+
+      {shots.length > 0 && (
+        <ShotList
+          shots={shots}
+          isBusy={loading || shotBusy}
+          exportProgress={exportProgress}
+          onUpdate={updateShot}
+          onMove={moveShot}
+          onDelete={(id) => setShots(prev => prev.filter(s => s.id !== id))}
+          onRegenerate={handleRegenerateShot}
+          onExtend={handleExtend}
+          onExport={handleExportSequence}
+          onSelect={(shot) => setVideoUrl(shot.url)}
+        />
+      )}
+
        {/* History Grid */}
        {history.length > 0 && (
         <div className="pt-8 border-t border-gray-800">
@@ -0,0 +1,155 @@
+import React, { useState, useRef } from 'react';
+import {
+  downloadWorkspaceBackup,
+  readWorkspaceBackup,
+  restoreWorkspaceBackup,
+  summarizeRestore,
+  RestoreSummaryRow,
+  WorkspaceBackup,
+} from '../services/backupService';
+import { DatabaseBackup, Download, Upload, Loader2, AlertTriangle, X } from 'lucide-react';
+
+interface WorkspaceBackupModalProps {
+  onClose: () => void;
+}
+
+export const WorkspaceBackupModal: React.FC<WorkspaceBackupModalProps> = ({ onClose }) => {
+  const [isBackingUp, setIsBackingUp] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [pendingBackup, setPendingBackup] = useState<WorkspaceBackup | null>(null);
+  const [summary, setSummary] = useState<RestoreSummaryRow[]>([]);
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleBackup = async () => {
+    setIsBackingUp(true);
+    try {
+      await downloadWorkspaceBackup();
+    } catch (e) {
+      console.error(e);
+      alert("Failed to create backup.");
+    } finally {
+      setIsBackingUp(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const backup = await readWorkspaceBackup(file);
+      setSummary(await summarizeRestore(backup));
+      setPendingBackup(backup);
+    } catch (err: any) {
+      alert(`Cannot restore: ${err?.message || err}`);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!pendingBackup) return;
+    setIsRestoring(true);
+    try {
+      await restoreWorkspaceBackup(pendingBackup);
+      // Every view caches its own copy of the data, so start fresh
+      window.location.reload();
+    } catch (e) {
+      console.error(e);
+      alert("Restore failed. Your workspace was not changed.");
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-gray-900 border border-gray-700 rounded-2xl w-full max-w-lg shadow-2xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-6 border-b border-gray-800 flex justify-between items-center bg-gradient-to-r from-blue-900/20 to-purple-900/20">
+          <h3 className="text-xl font-bold text-white flex items-center gap-2">
+            <DatabaseBackup className="text-blue-400" /> Workspace Backup
+          </h3>
+          <button onClick={() => !isRestoring && onClose()} className="text-gray-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          {!pendingBackup ? (
+            <>
+              <div className="space-y-2">
+                <p className="text-sm text-gray-400">
+                  Save every character, chat, generated media item and setting into a single archive file.
+                </p>
+                <button
+                  onClick={handleBackup}
+                  disabled={isBackingUp}
+                  className="w-full bg-blue-600 hover:bg-blue-500 text-white font-semibold py-3 rounded-lg flex items-center justify-center gap-2 disabled:opacity-50"
+                >
+                  {isBackingUp ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                  Download Backup
+                </button>
+              </div>
+              <div className="space-y-2 pt-4 border-t border-gray-800">
+                <p className="text-sm text-gray-400">Restore a previously saved archive. You will see what changes before anything is written.</p>
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  className="w-full bg-gray-800 hover:bg-gray-700 text-white font-semibold py-3 rounded-lg flex items-center justify-center gap-2"
+                >
+                  <Upload className="w-4 h-4" /> Choose Backup File
+                  <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleFileChange} />
+                </button>
+              </div>
+            </>
+          ) : (
+            <>
+              <p className="text-sm text-gray-400">
+                Backup from <b className="text-gray-200">{new Date(pendingBackup.createdAt).toLocaleString()}</b>
+              </p>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-gray-500 text-xs uppercase">
+                    <th className="text-left py-2">Data</th>
+                    <th className="text-right py-2">Current</th>
+                    <th className="text-right py-2">After Restore</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {summary.map(row => (
+                    <tr key={row.store} className="border-t border-gray-800">
+                      <td className="py-2 text-gray-200">{row.label}</td>
+                      <td className="py-2 text-right text-gray-400">{row.current}</td>
+                      <td className={`py-2 text-right ${row.incoming < row.current ? 'text-orange-300' : 'text-green-300'}`}>{row.incoming}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <div className="bg-orange-500/10 border border-orange-500/30 rounded-xl p-4 text-sm text-orange-200 flex gap-2">
+                <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                Everything currently in this browser will be replaced by the backup. This cannot be undone.
+              </div>
+            </>
+          )}
+        </div>
+
+        {pendingBackup && (
+          <div className="p-4 border-t border-gray-800 flex justify-end gap-2">
+            <button
+              onClick={() => setPendingBackup(null)}
+              disabled={isRestoring}
+              className="px-4 py-2 rounded-lg text-sm font-medium text-gray-400 hover:text-white transition"
+            >
+              Back
+            </button>
+            <button
+              onClick={handleRestore}
+              disabled={isRestoring}
+              className="bg-red-600 hover:bg-red-500 text-white px-4 py-2 rounded-lg text-sm font-bold flex items-center gap-2 disabled:opacity-50"
+            >
+              {isRestoring && <Loader2 className="w-4 h-4 animate-spin" />}
+              Replace Workspace
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
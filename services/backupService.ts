@@ -0,0 +1,121 @@
+import { DatabaseSnapshot, exportDatabase, getDatabaseVersion, getStoreCounts, getStoreKeyPath, restoreDatabase } from './storageService';
+import { blobToDataUrl, downloadBlob, urlToBlob } from './mediaUtils';
+
+export const BACKUP_FORMAT = 'omnicreate-backup';
+export const BACKUP_VERSION = 1;
+
+export interface WorkspaceBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: number;
+  dbVersion: number;
+  stores: DatabaseSnapshot;
+}
+
+export interface RestoreSummaryRow {
+  store: string;
+  label: string;
+  current: number;
+  incoming: number;
+}
+
+const STORE_LABELS: Record<string, string> = {
+  custom_models: 'Characters',
+  media_library: 'Media Library',
+  chat_threads: 'Chat Threads',
+  settings: 'Settings',
+  storyboard_projects: 'Storyboards',
+  prompt_presets: 'Prompt Presets',
+  generation_jobs: 'Generation Jobs',
+};
+
+export const getStoreLabel = (store: string) => STORE_LABELS[store] || store;
+
+// Blobs can't go through JSON, so they are swapped for tagged data URLs and back
+const BLOB_TAG = '__blob';
+
+const encodeValue = async (value: any): Promise<any> => {
+  if (value instanceof Blob) return { [BLOB_TAG]: await blobToDataUrl(value) };
+  if (Array.isArray(value)) return Promise.all(value.map(encodeValue));
+  if (value && typeof value === 'object') {
+    const entries = await Promise.all(Object.entries(value).map(async ([k, v]) => [k, await encodeValue(v)] as const));
+    return Object.fromEntries(entries);
+  }
+  return value;
+};
+
+const decodeValue = async (value: any): Promise<any> => {
+  if (value && typeof value === 'object' && typeof value[BLOB_TAG] === 'string') return urlToBlob(value[BLOB_TAG]);
+  if (Array.isArray(value)) return Promise.all(value.map(decodeValue));
+  if (value && typeof value === 'object') {
+    const entries = await Promise.all(Object.entries(value).map(async ([k, v]) => [k, await decodeValue(v)] as const));
+    return Object.fromEntries(entries);
+  }
+  return value;
+};
+
+export const createWorkspaceBackup = async (): Promise<Blob> => {
+  const snapshot = await exportDatabase();
+  const backup: WorkspaceBackup = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: Date.now(),
+    dbVersion: getDatabaseVersion(),
+    stores: await encodeValue(snapshot),
+  };
+  return new Blob([JSON.stringify(backup)], { type: 'application/json' });
+};
+
+export const downloadWorkspaceBackup = async () => {
+  const blob = await createWorkspaceBackup();
+  downloadBlob(blob, `omnicreate-backup-${new Date().toISOString().slice(0, 10)}.omnibackup.json`);
+};
+
+const isValidRecord = (keyPath: string) => (record: any) =>
+  !!record && typeof record === 'object' && !Array.isArray(record) &&
+  (typeof record[keyPath] === 'string' || (typeof record[keyPath] === 'number' && Number.isFinite(record[keyPath])));
+
+// Parses and checks an archive file. Throws with a readable message if it can't be restored.
+export const readWorkspaceBackup = async (file: File): Promise<WorkspaceBackup> => {
+  let raw: any;
+  try {
+    raw = JSON.parse(await file.text());
+  } catch (e) {
+    throw new Error("File is not valid JSON.");
+  }
+  if (raw?.format !== BACKUP_FORMAT) throw new Error("This file is not an OmniCreate workspace backup.");
+  if (typeof raw.version !== 'number' || raw.version > BACKUP_VERSION) {
+    throw new Error("This backup was made by a newer version of OmniCreate.");
+  }
+  if (typeof raw.dbVersion === 'number' && raw.dbVersion > getDatabaseVersion()) {
+    throw new Error("This backup contains data from a newer database schema. Please update OmniCreate.");
+  }
+  if (!raw.stores || typeof raw.stores !== 'object') throw new Error("Backup contains no data.");
+  for (const [store, records] of Object.entries(raw.stores)) {
+    if (!Array.isArray(records)) throw new Error(`Backup data for "${getStoreLabel(store)}" is corrupted.`);
+    // Checked up front so a bad record can't fail the restore halfway through
+    const keyPath = getStoreKeyPath(store);
+    if (keyPath && !records.every(isValidRecord(keyPath))) {
+      throw new Error(`Backup data for "${getStoreLabel(store)}" contains invalid records.`);
+    }
+  }
+  return { ...raw, stores: await decodeValue(raw.stores) };
+};
+
+// What a restore would replace, store by store
+export const summarizeRestore = async (backup: WorkspaceBackup): Promise<RestoreSummaryRow[]> => {
+  const counts = await getStoreCounts();
+  return Object.keys(counts).map(store => ({
+    store,
+    label: getStoreLabel(store),
+    current: counts[store],
+    incoming: backup.stores[store]?.length || 0,
+  }));
+};
+
+// Full restore: stores missing from the archive are emptied so the workspace matches it exactly
+export const restoreWorkspaceBackup = async (backup: WorkspaceBackup): Promise<void> => {
+  const counts = await getStoreCounts();
+  const emptyStores: DatabaseSnapshot = Object.fromEntries(Object.keys(counts).map(store => [store, []]));
+  await restoreDatabase({ ...emptyStores, ...backup.stores });
+};
@@ -0,0 +1,124 @@
+import { CustomModel, TrainingExample } from '../types';
+import { downloadBlob } from './mediaUtils';
+
+export const BUNDLE_FORMAT = 'omnicreate-characters';
+export const BUNDLE_VERSION = 1;
+
+export interface CharacterBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: number;
+  characters: CustomModel[];
+}
+
+export type CollisionStrategy = 'rename' | 'overwrite' | 'skip';
+
+// Upgrades keyed by the version they upgrade FROM. Each step must return the next version.
+// v0 is a bare array of character records, e.g. a raw dump of the custom_models store.
+const UPGRADES: Record<number, (bundle: any) => any> = {
+  0: (characters: any[]) => ({
+    format: BUNDLE_FORMAT,
+    version: 1,
+    exportedAt: Date.now(),
+    characters,
+  }),
+};
+
+export const createCharacterBundle = (models: CustomModel[]): CharacterBundle => ({
+  format: BUNDLE_FORMAT,
+  version: BUNDLE_VERSION,
+  exportedAt: Date.now(),
+  characters: models,
+});
+
+export const downloadCharacterBundle = (models: CustomModel[]) => {
+  const bundle = createCharacterBundle(models);
+  const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' });
+  downloadBlob(blob, models.length === 1
+    ? `${models[0].name.replace(/[^a-z0-9]+/gi, '-').toLowerCase() || 'character'}.omnichar.json`
+    : `omnicreate-characters-${new Date().toISOString().slice(0, 10)}.omnichar.json`);
+};
+
+const upgradeBundle = (raw: any): any => {
+  let bundle = raw;
+  let version = Array.isArray(raw) ? 0 : raw?.version;
+
+  if (!Array.isArray(raw) && raw?.format !== BUNDLE_FORMAT) {
+    throw new Error("This file is not an OmniCreate character bundle.");
+  }
+  if (typeof version !== 'number') {
+    throw new Error("Bundle is missing a version number.");
+  }
+  if (version > BUNDLE_VERSION) {
+    throw new Error(`Bundle version ${version} is newer than this app supports (${BUNDLE_VERSION}). Please update OmniCreate.`);
+  }
+
+  while (version < BUNDLE_VERSION) {
+    const upgrade = UPGRADES[version];
+    if (!upgrade) throw new Error(`Cannot upgrade bundle from version ${version}.`);
+    bundle = upgrade(bundle);
+    version = bundle.version;
+  }
+  return bundle;
+};
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(v => typeof v === 'string');
+
+// Validates one record and fills optional fields so it is safe to store
+const validateCharacter = (raw: any, index: number): CustomModel => {
+  const label = `Character ${index + 1}${typeof raw?.name === 'string' ? ` ("${raw.name}")` : ''}`;
+  if (!raw || typeof raw !== 'object') throw new Error(`${label} is not an object.`);
+  if (typeof raw.id !== 'string' || !raw.id) throw new Error(`${label} has no id.`);
+  if (typeof raw.name !== 'string') throw new Error(`${label} has no name.`);
+  if (raw.systemInstruction !== undefined && typeof raw.systemInstruction !== 'string') throw new Error(`${label}: systemInstruction must be text.`);
+  if (raw.consistencyContext !== undefined && typeof raw.consistencyContext !== 'string') throw new Error(`${label}: consistencyContext must be text.`);
+  if (raw.referenceImages !== undefined && !isStringArray(raw.referenceImages)) throw new Error(`${label}: referenceImages must be a list of images.`);
+  if (raw.examples !== undefined && !Array.isArray(raw.examples)) throw new Error(`${label}: examples must be a list.`);
+
+  const examples: TrainingExample[] = (raw.examples || []).map((ex: any, i: number) => {
+    if (!ex || typeof ex.input !== 'string' || typeof ex.output !== 'string') {
+      throw new Error(`${label}: example ${i + 1} needs text input and output.`);
+    }
+    return { id: typeof ex.id === 'string' ? ex.id : `${Date.now()}-${i}`, input: ex.input, output: ex.output };
+  });
+
+  return {
+    id: raw.id,
+    name: raw.name,
+    avatar: typeof raw.avatar === 'string' ? raw.avatar : "👤",
+    type: raw.type === 'image_generator' ? 'image_generator' : 'chat',
+    systemInstruction: raw.systemInstruction || "",
+    consistencyContext: raw.consistencyContext || "",
+    examples,
+    referenceImages: raw.referenceImages || [],
+    lastModified: typeof raw.lastModified === 'number' ? raw.lastModified : Date.now(),
+  };
+};
+
+// Parses bundle file contents, upgrading older versions. Throws with a readable message if invalid.
+export const parseCharacterBundle = (text: string): CustomModel[] => {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    throw new Error("File is not valid JSON.");
+  }
+  const bundle = upgradeBundle(raw);
+  if (!Array.isArray(bundle.characters)) throw new Error("Bundle contains no characters.");
+  return bundle.characters.map(validateCharacter);
+};
+
+// Decide what to write for each incoming character whose id already exists locally
+export const resolveCollisions = (
+  incoming: CustomModel[],
+  existing: CustomModel[],
+  strategy: CollisionStrategy
+): CustomModel[] => {
+  const existingIds = new Set(existing.map(m => m.id));
+  return incoming.flatMap((model, i) => {
+    if (!existingIds.has(model.id) || strategy === 'overwrite') return [model];
+    if (strategy === 'skip') return [];
+    return [{ ...model, id: `model-${Date.now()}-${i}`, name: `${model.name} (imported)`, lastModified: Date.now() }];
+  });
+};
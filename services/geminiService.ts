@@ -1,20 +1,55 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { ImageAspectRatio, VideoResolution, TrainingExample, ChatMessage } from "../types";
+import { ImageAspectRatio, VideoResolution, TrainingExample, ChatMessage, PromptSuggestion } from "../types";
+import { createTaskQueue } from "./taskQueue";
+import { JobDetails, JobResult, registerJobPoller, runJob } from "./jobManager";
+import { getProvider, InlineImage, JsonSchema, VideoRequest } from "./providers";
+import { getModel, getSettings } from "./settingsService";
 
-// Helper to get fresh client instance to ensure latest key is used
-const getClient = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
+// App-facing API. Prompt building, retries, cancellation and progress live here;
+// the active provider (see services/providers) only talks to the backend.
 
-// Retry configuration
+// Retry configuration; the retry count and backoff cap come from Settings
 const RETRY_DELAY_MS = 1000;
-const MAX_RETRIES = 20; // Significantly increased to allow "unlimited" feel by waiting out quotas
-const MAX_BACKOFF_MS = 10000; // Cap wait time at 10 seconds per retry
+
+// Live feedback for calls that would otherwise wait silently
+export type ServiceProgress =
+  | { type: 'retry'; attempt: number; maxRetries: number; delayMs: number; reason: string }
+  | { type: 'poll'; elapsedMs: number };
+
+// Accepted as the last argument of every service call
+export interface CallOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: ServiceProgress) => void;
+}
+
+export const isAbortError = (error: any) => error?.name === 'AbortError';
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new DOMException('Request cancelled.', 'AbortError');
+};
+
+// setTimeout that gives up as soon as the signal fires
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  throwIfAborted(signal);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new DOMException('Request cancelled.', 'AbortError'));
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
 
 // Generic retry wrapper for API calls
-const withRetry = async <T>(fn: () => Promise<T>, retries = MAX_RETRIES, delay = RETRY_DELAY_MS): Promise<T> => {
+const withRetry = async <T>(fn: () => Promise<T>, options: CallOptions = {}, retries = getSettings().maxRetries, delay = RETRY_DELAY_MS): Promise<T> => {
+  throwIfAborted(options.signal);
+  const { maxRetries, maxBackoffMs } = getSettings();
   try {
     return await fn();
   } catch (error: any) {
+    if (isAbortError(error) || options.signal?.aborted) throw new DOMException('Request cancelled.', 'AbortError');
     const isRetryable = 
       retries > 0 && (
         error?.status === 429 || 
@@ -28,16 +63,24 @@ const withRetry = async <T>(fn: () => Promise<T>, retries = MAX_RETRIES, delay =
 
     if (isRetryable) {
       console.warn(`API call hit rate limit. Retrying in ${delay}ms... (Attempts left: ${retries})`);
-      await new Promise(r => setTimeout(r, delay));
+      options.onProgress?.({
+        type: 'retry',
+        attempt: maxRetries - retries + 1,
+        maxRetries,
+        delayMs: delay,
+        reason: error?.status === 503 || error?.message?.includes('503') ? 'Service busy' : 'Rate limited',
+      });
+      await sleep(delay, options.signal);
       // Exponential backoff with cap
-      const nextDelay = Math.min(delay * 1.5, MAX_BACKOFF_MS);
-      return withRetry(fn, retries - 1, nextDelay); 
+      const nextDelay = Math.min(delay * 1.5, maxBackoffMs);
+      return withRetry(fn, options, retries - 1, nextDelay); 
     }
     throw error;
   }
 };
 
 export const checkApiKey = async (): Promise<boolean> => {
+  if (!getProvider().requiresApiKey) return true;
   const aistudio = (window as any).aistudio;
   if (!aistudio) return false;
   return await aistudio.hasSelectedApiKey();
@@ -50,92 +93,121 @@ export const promptForKeySelection = async (): Promise<void> => {
   }
 };
 
+// Split a data URL into raw base64 and its type
+const dataUrlToInlineImage = (dataUrl: string): InlineImage => {
+  const [header, data] = dataUrl.split(',');
+  const mimeType = header.match(/data:(.*?);/)?.[1] || 'image/png';
+  return { data, mimeType };
+};
+
+// Leading base64 of each format's magic bytes
+const BASE64_SIGNATURES: [string, string][] = [['/9j/', 'image/jpeg'], ['iVBOR', 'image/png'], ['UklGR', 'image/webp'], ['R0lGOD', 'image/gif']];
+
+// Accepts a data URL or raw base64 (as character references are stored), whose type is read from its first bytes
+const toInlineImage = (image: string): InlineImage => {
+  if (image.startsWith('data:')) return dataUrlToInlineImage(image);
+  const mimeType = BASE64_SIGNATURES.find(([prefix]) => image.startsWith(prefix))?.[1] || 'image/png';
+  return { data: image, mimeType };
+};
+
 export const generateImage = async (
   prompt: string,
   aspectRatio: ImageAspectRatio,
-  highQuality: boolean = false
+  highQuality: boolean = false,
+  referenceImages: string[] = [], // Data URLs or raw base64, sent alongside the prompt
+  seed?: number, // Makes a result reproducible where the model honours it
+  options: CallOptions = {}
 ): Promise<string> => {
-  return withRetry(async () => {
-    const ai = getClient();
-    const model = highQuality ? "gemini-3-pro-image-preview" : "gemini-2.5-flash-image";
-
-    const config: any = {
-      imageConfig: {
-        aspectRatio: aspectRatio,
-      },
-    };
-
-    if (highQuality) {
-      config.imageConfig.imageSize = "2K"; // Request higher res for pro model
-    }
+  return withRetry(() => getProvider().generateImage({
+    model: getModel(highQuality ? 'imageHighQuality' : 'image'),
+    prompt,
+    aspectRatio,
+    imageSize: highQuality ? getSettings().imageSize : undefined,
+    referenceImages: referenceImages.map(toInlineImage),
+    seed,
+  }, options.signal), options);
+};
 
-    const response = await ai.models.generateContent({
-      model,
-      contents: {
-        parts: [{ text: prompt }],
-      },
-      config,
-    });
+export const MAX_VARIATIONS = 8;
+export const MAX_REFS_PER_CHARACTER = 2; // Keeps multi-character scenes within the model's image budget
 
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-      if (part.inlineData) {
-        return `data:image/png;base64,${part.inlineData.data}`;
-      }
-    }
-    throw new Error("No image generated.");
-  });
+// N independent generations with consecutive seeds, so any one of them can be reproduced later.
+// Individual failures are dropped; it only throws if nothing came back.
+export const generateImageVariations = async (
+  prompt: string,
+  aspectRatio: ImageAspectRatio,
+  count: number,
+  highQuality: boolean = false,
+  referenceImages: string[] = [],
+  baseSeed: number = Math.floor(Math.random() * 1_000_000),
+  options: CallOptions = {}
+): Promise<{ url: string; seed: number }[]> => {
+  const enqueue = createTaskQueue(2); // Stay gentle on the image quota
+  const seeds = Array.from({ length: Math.min(Math.max(count, 1), MAX_VARIATIONS) }, (_, i) => baseSeed + i);
+  const settled = await Promise.allSettled(seeds.map(seed =>
+    enqueue(() => generateImage(prompt, aspectRatio, highQuality, referenceImages, seed, options)).then(url => ({ url, seed }))
+  ));
+  throwIfAborted(options.signal); // Don't hand back a partial batch the user cancelled
+  const results = settled.flatMap(r => r.status === 'fulfilled' ? [r.value] : []);
+  if (results.length === 0) {
+    throw (settled[0] as PromiseRejectedResult).reason;
+  }
+  return results;
 };
 
+// Used when a remaster is requested without extra instructions
+export const DEFAULT_REMASTER_PROMPT = "High resolution, detailed, photorealistic version of this image, 4k, masterpiece, highly detailed texture";
+
 export const editImage = async (
   base64Image: string,
   prompt: string,
   mimeType: string,
   highQuality: boolean = false,
-  aspectRatio: ImageAspectRatio = ImageAspectRatio.SQUARE
+  aspectRatio: ImageAspectRatio = ImageAspectRatio.SQUARE,
+  maskBase64?: string, // Black/white PNG, white marks the only region that may change
+  options: CallOptions = {}
 ): Promise<string> => {
-  return withRetry(async () => {
-    const ai = getClient();
-    // Use Pro model for high quality edits (Upscale/Remaster)
-    const model = highQuality ? "gemini-3-pro-image-preview" : "gemini-2.5-flash-image";
-
-    const config: any = {};
-    
-    // For Pro model, we can specify size and aspect ratio
-    if (highQuality) {
-      config.imageConfig = {
-        imageSize: "2K",
-        aspectRatio: aspectRatio
-      };
-    } else {
-      // Flash model also supports aspect ratio
-      config.imageConfig = {
-        aspectRatio: aspectRatio
-      };
-    }
+  return withRetry(() => getProvider().editImage({
+    model: getModel(highQuality ? 'imageHighQuality' : 'image'), // High quality for Upscale/Remaster
+    image: { data: base64Image, mimeType },
+    prompt,
+    aspectRatio,
+    imageSize: highQuality ? getSettings().imageSize : undefined,
+    mask: maskBase64 ? toInlineImage(maskBase64) : undefined,
+  }, options.signal), options);
+};
 
-    const response = await ai.models.generateContent({
-      model,
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              data: base64Image,
-              mimeType: mimeType,
-            },
-          },
-          { text: prompt },
-        ],
-      },
-      config: Object.keys(config).length > 0 ? config : undefined,
+// Progress callbacks of callers waiting on an operation, so retried polls show up in their status line
+const pollProgress = new Map<string, CallOptions['onProgress']>();
+
+// The poll is retried too, in case of transient network issues
+registerJobPoller('video', operationName => withRetry(
+  () => getProvider().pollVideo(operationName),
+  { onProgress: pollProgress.get(operationName) }
+));
+
+// Submits a video request and hands the operation to the job manager, which polls it in the background.
+// Aborting cancels the job; the server-side render can't be stopped.
+const runVideoOperation = async (
+  request: VideoRequest,
+  details: Partial<JobDetails> = {},
+  options: CallOptions = {}
+): Promise<JobResult> => {
+  const operationName = await withRetry(() => getProvider().startVideo(request, options.signal), options);
+
+  pollProgress.set(operationName, options.onProgress);
+  try {
+    return await runJob('video', operationName, {
+      ...details,
+      title: details.title || request.prompt || "Video",
+      source: details.source || 'video_generator',
+    }, {
+      signal: options.signal,
+      onPoll: elapsedMs => options.onProgress?.({ type: 'poll', elapsedMs }),
     });
-
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-      if (part.inlineData) {
-        return `data:image/png;base64,${part.inlineData.data}`;
-      }
-    }
-    throw new Error("No edited image generated.");
-  });
+  } finally {
+    pollProgress.delete(operationName);
+  }
 };
 
 export const generateVideo = async (
@@ -143,193 +215,244 @@ export const generateVideo = async (
   resolution: VideoResolution,
   aspectRatio: string,
   referenceImages?: string[],
-  startImage?: string
+  startImage?: string,
+  endImage?: string,
+  details?: Partial<JobDetails>, // How the job is labelled in the jobs tray and library
+  options: CallOptions = {}
 ): Promise<string> => {
-  const ai = getClient();
-  
-  // Logic: 
-  // 1. If referenceImages exist -> Use veo-3.1-generate-preview (consistency)
-  // 2. If startImage exists -> Use veo-3.1-fast-generate-preview (animation)
-  // 3. Default -> veo-3.1-fast-generate-preview
-  
-  const hasRefs = referenceImages && referenceImages.length > 0;
-  
-  const model = hasRefs ? "veo-3.1-generate-preview" : "veo-3.1-fast-generate-preview";
-
-  const config: any = {
-    numberOfVideos: 1,
-    resolution: hasRefs ? '720p' : resolution, // Ref images require 720p currently
-    aspectRatio: hasRefs ? '16:9' : aspectRatio, // Ref images require 16:9 currently
-  };
+  return (await generateVideoClip(prompt, resolution, aspectRatio, referenceImages, startImage, endImage, details, options)).url;
+};
 
-  const options: any = {
-    model,
+// Same as generateVideo, but also returns the server-side URI that native extension needs
+export const generateVideoClip = async (
+  prompt: string,
+  resolution: VideoResolution,
+  aspectRatio: string,
+  referenceImages?: string[],
+  startImage?: string,
+  endImage?: string, // With startImage, Veo interpolates the motion between the two frames
+  details?: Partial<JobDetails>,
+  options: CallOptions = {}
+): Promise<JobResult> => {
+  const hasRefs = !!referenceImages && referenceImages.length > 0;
+  return runVideoOperation({
+    model: getModel(hasRefs ? 'videoReference' : 'video'),
     prompt: prompt || (startImage ? "Animate this image" : "A cinematic video"), // Prompt is optional for startImage but usually good to have
-    config,
-  };
-
-  if (hasRefs) {
-    // Take up to 3 images
-    const refsToUse = referenceImages!.slice(0, 3);
-    config.referenceImages = refsToUse.map(img => ({
-      image: {
-        imageBytes: img,
-        mimeType: 'image/png'
-      },
-      referenceType: 'ASSET' // This locks the character visual
-    }));
-  } else if (startImage) {
-    // Image to Video
-    options.image = {
-        imageBytes: startImage,
-        mimeType: 'image/png' // Assuming png/jpeg converted to base64
-    };
-  }
-
-  let operation: any = await withRetry(() => ai.models.generateVideos(options));
+    resolution,
+    aspectRatio,
+    referenceImages: referenceImages?.map(toInlineImage),
+    startImage: startImage ? toInlineImage(startImage) : undefined,
+    endImage: endImage ? toInlineImage(endImage) : undefined,
+  }, details, options);
+};
 
-  // Polling loop
-  while (!operation.done) {
-    await new Promise((resolve) => setTimeout(resolve, 5000)); // Poll every 5s
-    // Also retry the polling operation in case of transient network issues
-    operation = await withRetry(() => ai.operations.getVideosOperation({ operation }));
+// Continues a clip with a new prompt. Clips still on the server are extended natively where the provider supports it
+// (the result contains the source clip followed by the new footage); otherwise, or if that fails,
+// the new shot is animated from the source's last frame.
+export const extendVideo = async (
+  prompt: string,
+  source: { uri?: string; lastFrame: string }, // lastFrame is a data URL
+  resolution: VideoResolution,
+  aspectRatio: string,
+  details?: Partial<JobDetails>,
+  options: CallOptions = {}
+): Promise<JobResult & { includesSource: boolean }> => {
+  if (source.uri && getProvider().canExtendVideo) {
+    try {
+      const clip = await runVideoOperation({
+        model: getModel('videoReference'),
+        prompt,
+        resolution,
+        aspectRatio,
+        sourceVideoUri: source.uri,
+      }, details, options);
+      return { ...clip, includesSource: true };
+    } catch (error: any) {
+      if (isAbortError(error)) throw error;
+      console.warn("Native video extension failed, continuing from the last frame instead.", error);
+    }
   }
 
-  const uri = operation.response?.generatedVideos?.[0]?.video?.uri;
-  if (!uri) throw new Error("Video generation failed or returned no URI.");
-
-  // Fetch the actual video bytes using the key
-  const videoResponse = await fetch(`${uri}&key=${process.env.API_KEY}`);
-  if (!videoResponse.ok) throw new Error("Failed to download generated video.");
-  
-  const blob = await videoResponse.blob();
-  return URL.createObjectURL(blob);
+  const clip = await runVideoOperation({
+    model: getModel('video'),
+    prompt: `Continue seamlessly from this frame. ${prompt}`,
+    resolution,
+    aspectRatio,
+    startImage: toInlineImage(source.lastFrame),
+  }, details, options);
+  return { ...clip, includesSource: false };
 };
 
 export const analyzeMedia = async (
   base64Data: string,
   mimeType: string,
-  prompt: string
+  prompt: string,
+  options: CallOptions = {}
 ): Promise<string> => {
   return withRetry(async () => {
-    const ai = getClient();
-    const model = "gemini-2.5-flash"; // Good balance for analysis
-
-    const response = await ai.models.generateContent({
-      model,
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              data: base64Data,
-              mimeType: mimeType,
-            },
-          },
-          { text: prompt || "Describe this media in detail." },
-        ],
-      },
-    });
+    const text = await getProvider().generateText({
+      model: getModel('analysis'),
+      prompt: prompt || "Describe this media in detail.",
+      images: [{ data: base64Data, mimeType }],
+    }, options.signal);
+    return text || "No analysis available.";
+  }, options);
+};
 
-    return response.text || "No analysis available.";
-  });
+const PANEL_LIST_SCHEMA: JsonSchema = { type: 'array', items: { type: 'string' } };
+
+// Up to `count` scene descriptions from the model's reply. May come back short; callers report the shortfall.
+const parsePanelList = (text: string | undefined, count: number): string[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text || "[]");
+  } catch (e) {
+    console.error("Failed to parse storyboard plan", e);
+    throw new Error("The storyboard plan could not be read.");
+  }
+  const descriptions = Array.isArray(parsed) ? parsed.filter((d): d is string => typeof d === 'string' && d.trim() !== '') : [];
+  if (descriptions.length === 0) throw new Error("The storyboard plan had no scenes.");
+  return descriptions.slice(0, count);
 };
 
-export const generateStoryboardPlan = async (prompt: string): Promise<string[]> => {
+export const generateStoryboardPlan = async (prompt: string, panelCount: number = 4, options: CallOptions = {}): Promise<string[]> => {
   return withRetry(async () => {
-    const ai = getClient();
-    const model = "gemini-2.5-flash";
-
-    const response = await ai.models.generateContent({
-      model,
-      contents: `Create a 4-panel storyboard plan for the following story: "${prompt}". 
-      Return ONLY a JSON array of strings, where each string describes one panel visually.`,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: { type: Type.STRING },
-        },
-      },
-    });
+    const text = await getProvider().generateJson({
+      model: getModel('text'),
+      prompt: `Create a ${panelCount}-panel storyboard plan for the following story: "${prompt}". 
+      Return ONLY a JSON array of exactly ${panelCount} strings, where each string describes one panel visually.`,
+      schema: PANEL_LIST_SCHEMA,
+    }, options.signal);
+
+    return parsePanelList(text, panelCount);
+  }, options);
+};
 
-    try {
-      const text = response.text;
-      return JSON.parse(text || "[]");
-    } catch (e) {
-      console.error("Failed to parse storyboard plan", e);
-      return ["Scene 1", "Scene 2", "Scene 3", "Scene 4"];
-    }
-  });
+// Plans only the scenes after `previousPanels`, continuing the story from where they leave off
+export const continueStoryboardPlan = async (
+  prompt: string,
+  previousPanels: string[],
+  panelCount: number,
+  options: CallOptions = {}
+): Promise<string[]> => {
+  return withRetry(async () => {
+    const soFar = previousPanels.map((desc, i) => `${i + 1}. ${desc}`).join("\n");
+
+    const text = await getProvider().generateJson({
+      model: getModel('text'),
+      prompt: `We are storyboarding the following story: "${prompt}".
+      The storyboard so far has these panels:
+${soFar}
+
+      Continue the storyboard with exactly ${panelCount} more panels that follow on naturally from the last one and bring the story to a satisfying end.
+      Return ONLY a JSON array of ${panelCount} strings, where each string describes one new panel visually.`,
+      schema: PANEL_LIST_SCHEMA,
+    }, options.signal);
+
+    return parsePanelList(text, panelCount);
+  }, options);
 };
 
+const toChatTurn = (role: ChatMessage['role'], text: string, attachmentUrl?: string) => ({
+  role,
+  text,
+  image: attachmentUrl ? dataUrlToInlineImage(attachmentUrl) : undefined,
+});
+
 export const chatWithCustomModel = async (
   modelConfig: { systemInstruction: string; examples: TrainingExample[] },
   history: ChatMessage[],
-  newMessage: string
+  newMessage: string,
+  attachmentUrl?: string,
+  options: CallOptions = {}
 ): Promise<string> => {
+  return withRetry(() => getProvider().chat({
+    model: getModel('text'),
+    systemInstruction: modelConfig.systemInstruction,
+    history: [
+      // Few-shot examples go first as earlier turns, then the actual chat (including any attached images).
+      // Half-written examples are skipped: an empty turn makes the whole request fail.
+      ...modelConfig.examples
+        .filter(ex => ex.input.trim() && ex.output.trim())
+        .flatMap(ex => [toChatTurn('user', ex.input), toChatTurn('model', ex.output)]),
+      ...history.map(msg => toChatTurn(msg.role, msg.text, msg.attachmentUrl)),
+    ],
+    message: toChatTurn('user', newMessage, attachmentUrl),
+  }, options.signal), options);
+};
+
+export const optimizeSystemInstruction = async (instruction: string, options: CallOptions = {}): Promise<string> => {
   return withRetry(async () => {
-    const ai = getClient();
-    const model = "gemini-2.5-flash";
+    const text = await getProvider().generateText({
+      model: getModel('text'),
+      prompt: `Optimize this system instruction for an AI persona to be more distinct, consistent, and effective. Keep the core intent. Return only the new instruction text.\n\nOriginal: "${instruction}"`,
+    }, options.signal);
 
-    // Prepare history with few-shot examples prepended
-    const historyContent: any[] = [];
-    
-    // Add examples as history turns for few-shot learning
-    modelConfig.examples.forEach(ex => {
-      historyContent.push({ role: 'user', parts: [{ text: ex.input }] });
-      historyContent.push({ role: 'model', parts: [{ text: ex.output }] });
-    });
+    return text.trim() || instruction;
+  }, options);
+};
 
-    // Add actual chat history
-    history.forEach(msg => {
-      historyContent.push({
-        role: msg.role,
-        parts: [{ text: msg.text }]
-      });
-    });
+const ENHANCE_TARGETS: Record<'image' | 'video', { label: string; cues: string }> = {
+  image: { label: "an image generation model", cues: "composition (framing, camera angle, focal point), lighting, colour palette, medium/style and key details" },
+  video: { label: "the Veo video model", cues: "camera movement and lens, shot type, lighting, subject motion, pacing and atmosphere" },
+};
 
-    const chat = ai.chats.create({
-      model,
-      config: {
-        systemInstruction: modelConfig.systemInstruction,
+// Expands a short idea into several distinct prompts tuned for the target tool
+export const enhancePrompt = async (idea: string, target: 'image' | 'video', count: number = 3, options: CallOptions = {}): Promise<PromptSuggestion[]> => {
+  return withRetry(async () => {
+    const text = await getProvider().generateJson({
+      model: getModel('text'),
+      prompt: `Rewrite this short idea into ${count} different, detailed prompts for ${ENHANCE_TARGETS[target].label}. Add ${ENHANCE_TARGETS[target].cues}.
+      Keep the user's core subject and intent. Make each option take a clearly different creative direction. Each prompt should be one paragraph under 80 words.
+
+      Idea: "${idea}"
+
+      Return ONLY a JSON array of ${count} objects with a short "title" describing the direction and the full "prompt".`,
+      schema: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            title: { type: 'string' },
+            prompt: { type: 'string' },
+          },
+          required: ["title", "prompt"],
+        },
       },
-      history: historyContent
-    });
+    }, options.signal);
 
-    const response = await chat.sendMessage({ message: newMessage });
-    return response.text || "";
-  });
+    try {
+      const parsed = JSON.parse(text || "[]");
+      return (Array.isArray(parsed) ? parsed : [])
+        .filter((s: any) => typeof s?.prompt === 'string' && s.prompt.trim())
+        .map((s: any) => ({ title: String(s.title || 'Option'), prompt: s.prompt.trim() }))
+        .slice(0, count);
+    } catch (e) {
+      console.error("Failed to parse prompt suggestions", e);
+      return [];
+    }
+  }, options);
 };
 
-export const optimizeSystemInstruction = async (instruction: string): Promise<string> => {
+// Blends the chosen suggestions into a single prompt
+export const mergePrompts = async (prompts: string[], target: 'image' | 'video', options: CallOptions = {}): Promise<string> => {
   return withRetry(async () => {
-    const ai = getClient();
-    const model = "gemini-2.5-flash";
-
-    const response = await ai.models.generateContent({
-      model,
-      contents: {
-        parts: [{ text: `Optimize this system instruction for an AI persona to be more distinct, consistent, and effective. Keep the core intent. Return only the new instruction text.\n\nOriginal: "${instruction}"` }]
-      }
-    });
-
-    return response.text?.trim() || instruction;
-  });
+    const numbered = prompts.map((p, i) => `${i + 1}. ${p}`).join("\n");
+    const text = await getProvider().generateText({
+      model: getModel('text'),
+      prompt: `Merge these prompts for ${ENHANCE_TARGETS[target].label} into one coherent prompt that keeps the strongest elements of each and drops anything contradictory. Keep it under 100 words. Return only the merged prompt text.\n\n${numbered}`,
+    }, options.signal);
+
+    return text.trim() || prompts[0];
+  }, options);
 };
 
-export const analyzeCharacterReferences = async (base64Images: string[]): Promise<string> => {
+export const analyzeCharacterReferences = async (base64Images: string[], options: CallOptions = {}): Promise<string> => {
   return withRetry(async () => {
-    const ai = getClient();
-    const model = "gemini-2.5-flash";
-
-    const parts: any[] = base64Images.map(b64 => ({
-      inlineData: {
-        mimeType: "image/png",
-        data: b64
-      }
-    }));
-    
-    parts.push({ text: `You are an expert character concept artist. Your task is to create a 'Visual Consistency Prompt' for this character based on the uploaded reference images.
+    const text = await getProvider().generateText({
+      model: getModel('analysis'),
+      images: base64Images.map(toInlineImage),
+      prompt: `You are an expert character concept artist. Your task is to create a 'Visual Consistency Prompt' for this character based on the uploaded reference images.
   
   1. ANALYZE the images to find INVARIANT traits (traits present in all images).
   2. IGNORE background, lighting, and pose (unless they are constant).
@@ -338,62 +461,53 @@ export const analyzeCharacterReferences = async (base64Images: string[]): Promis
      - Facial structure and features (e.g. "sharp cheekbones, cybernetic left eye, scar on chin").
      - Distinctive Clothing/Armor (e.g. "neon orange bomber jacket with dragon patch").
      - Art Style/Medium (e.g. "3D render, octane style" or "loose watercolor").
-  4. OUTPUT a single, dense paragraph of visual descriptors, formatted as an image generation prompt. Do not use conversational language. Focus on physical description.` });
-
-    const response = await ai.models.generateContent({
-      model,
-      contents: { parts }
-    });
+  4. OUTPUT a single, dense paragraph of visual descriptors, formatted as an image generation prompt. Do not use conversational language. Focus on physical description.`,
+    }, options.signal);
 
-    return response.text?.trim() || "A character with consistent features.";
-  });
+    return text.trim() || "A character with consistent features.";
+  }, options);
 };
 
 export const autoTrainCharacter = async (
   name: string,
   description: string,
-  visualSeed?: string
+  visualSeed?: string,
+  options: CallOptions = {}
 ): Promise<{
   systemInstruction: string;
   consistencyContext: string;
   examples: TrainingExample[];
 }> => {
   return withRetry(async () => {
-    const ai = getClient();
-    const model = "gemini-2.5-flash";
-    
     const prompt = `Create a detailed character persona for "${name}": ${description}. ${visualSeed ? `Visuals: ${visualSeed}` : ''}
     Output JSON with:
     - systemInstruction: A detailed instruction describing the character's personality, backstory, and voice.
     - consistencyContext: A dense image generation prompt describing the character's visual appearance. Format: [Subject Description, Face, Hair] + [Outfit, Accessories] + [Art Style]. Do not include generic poses.
     - examples: array of 3 dialogue examples.`;
 
-    const response = await ai.models.generateContent({
-      model,
-      contents: { parts: [{ text: prompt }] },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            systemInstruction: { type: Type.STRING },
-            consistencyContext: { type: Type.STRING },
-            examples: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  input: { type: Type.STRING },
-                  output: { type: Type.STRING },
-                }
+    const text = await getProvider().generateJson({
+      model: getModel('text'),
+      prompt,
+      schema: {
+        type: 'object',
+        properties: {
+          systemInstruction: { type: 'string' },
+          consistencyContext: { type: 'string' },
+          examples: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                input: { type: 'string' },
+                output: { type: 'string' },
               }
             }
           }
         }
-      }
-    });
+      },
+    }, options.signal);
 
-    const json = JSON.parse(response.text || "{}");
+    const json = JSON.parse(text || "{}");
     
     // Add IDs to examples
     const examples = (json.examples || []).map((ex: any, i: number) => ({
@@ -407,5 +521,5 @@ export const autoTrainCharacter = async (
       consistencyContext: json.consistencyContext || "",
       examples
     };
-  });
+  }, options);
 };
@@ -0,0 +1,111 @@
+import { ImageAspectRatio } from '../types';
+import { canvasToBlob } from './mediaUtils';
+
+// Local, API-free image adjustments. Order: rotate/flip, crop, resize, then colour filters.
+
+export type ExportFormat = 'image/png' | 'image/jpeg' | 'image/webp';
+
+export interface ImageAdjustments {
+  crop: ImageAspectRatio | 'original';
+  cropPosition: number; // 0-100 along the axis that gets trimmed, 50 = centered
+  rotation: 0 | 90 | 180 | 270;
+  flipH: boolean;
+  flipV: boolean;
+  width?: number; // Output width in px; height follows the aspect ratio
+  brightness: number; // Percent, 100 = unchanged
+  contrast: number;
+  saturation: number;
+}
+
+export const DEFAULT_ADJUSTMENTS: ImageAdjustments = {
+  crop: 'original',
+  cropPosition: 50,
+  rotation: 0,
+  flipH: false,
+  flipV: false,
+  brightness: 100,
+  contrast: 100,
+  saturation: 100,
+};
+
+export const FORMAT_EXTENSIONS: Record<ExportFormat, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+};
+
+// Size of the rotated source, then the crop rectangle inside it
+export const getCropRect = (image: HTMLImageElement, adjustments: ImageAdjustments) => {
+  const sideways = adjustments.rotation === 90 || adjustments.rotation === 270;
+  const width = sideways ? image.naturalHeight : image.naturalWidth;
+  const height = sideways ? image.naturalWidth : image.naturalHeight;
+  if (adjustments.crop === 'original') return { sourceWidth: width, sourceHeight: height, x: 0, y: 0, width, height };
+
+  const [rw, rh] = adjustments.crop.split(':').map(Number);
+  const target = rw / rh;
+  const position = adjustments.cropPosition / 100;
+  if (width / height > target) {
+    const cropWidth = Math.round(height * target);
+    return { sourceWidth: width, sourceHeight: height, x: Math.round((width - cropWidth) * position), y: 0, width: cropWidth, height };
+  }
+  const cropHeight = Math.round(width / target);
+  return { sourceWidth: width, sourceHeight: height, x: 0, y: Math.round((height - cropHeight) * position), width, height: cropHeight };
+};
+
+export const getOutputSize = (image: HTMLImageElement, adjustments: ImageAdjustments) => {
+  const crop = getCropRect(image, adjustments);
+  const width = adjustments.width || crop.width;
+  return { width, height: Math.max(1, Math.round(crop.height * width / crop.width)) };
+};
+
+// maxSize shrinks the result for fast previews without changing proportions
+export const renderAdjusted = (image: HTMLImageElement, adjustments: ImageAdjustments, maxSize?: number): HTMLCanvasElement => {
+  const crop = getCropRect(image, adjustments);
+
+  // Rotate and flip into an intermediate canvas at full resolution
+  const oriented = document.createElement('canvas');
+  oriented.width = crop.sourceWidth;
+  oriented.height = crop.sourceHeight;
+  const octx = oriented.getContext('2d')!;
+  octx.translate(crop.sourceWidth / 2, crop.sourceHeight / 2);
+  octx.rotate((adjustments.rotation * Math.PI) / 180);
+  octx.scale(adjustments.flipH ? -1 : 1, adjustments.flipV ? -1 : 1);
+  octx.drawImage(image, -image.naturalWidth / 2, -image.naturalHeight / 2);
+
+  let { width, height } = getOutputSize(image, adjustments);
+  if (maxSize && Math.max(width, height) > maxSize) {
+    const scale = maxSize / Math.max(width, height);
+    width = Math.round(width * scale);
+    height = Math.round(height * scale);
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.filter = `brightness(${adjustments.brightness}%) contrast(${adjustments.contrast}%) saturate(${adjustments.saturation}%)`;
+  ctx.drawImage(oriented, crop.x, crop.y, crop.width, crop.height, 0, 0, width, height);
+  return canvas;
+};
+
+export const exportAdjusted = (
+  image: HTMLImageElement,
+  adjustments: ImageAdjustments,
+  format: ExportFormat,
+  quality: number // 0-1, ignored for PNG
+): Promise<Blob> => {
+  const canvas = renderAdjusted(image, adjustments);
+  if (format === 'image/jpeg') {
+    // JPEG has no alpha; flatten onto white instead of black
+    const flat = document.createElement('canvas');
+    flat.width = canvas.width;
+    flat.height = canvas.height;
+    const ctx = flat.getContext('2d')!;
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, flat.width, flat.height);
+    ctx.drawImage(canvas, 0, 0);
+    return canvasToBlob(flat, format, quality);
+  }
+  return canvasToBlob(canvas, format, format === 'image/png' ? undefined : quality);
+};
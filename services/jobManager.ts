@@ -0,0 +1,184 @@
+import { GenerationJob } from '../types';
+import { getAllJobs, saveJob, deleteJobById, saveMediaItem } from './storageService';
+import { urlToBlob } from './mediaUtils';
+
+// Tracks long-running generations outside of any one view. Operation handles are persisted,
+// so polling carries on across mode switches and resumes after a reload.
+
+const POLL_INTERVAL_MS = 5000;
+const FINISHED_RETENTION_MS = 24 * 60 * 60 * 1000; // Finished jobs drop out of the tray after a day
+
+export interface JobResult {
+  url: string; // Object URL of the downloaded result
+  uri: string; // Server-side copy
+  mediaId?: string; // Media library id the result was filed under, unless saving failed
+}
+
+// Checks an operation once: null while it is still running, the downloaded result once done. Throws if it failed.
+export type JobPoller = (operationName: string) => Promise<JobResult | null>;
+
+export type JobDetails = Pick<GenerationJob, 'title' | 'source' | 'modelId' | 'modelName'>;
+
+// For the caller that started the job: aborting cancels it, onPoll fires after every status check
+export interface JobHooks {
+  signal?: AbortSignal;
+  onPoll?: (elapsedMs: number) => void;
+}
+
+const pollers: Partial<Record<GenerationJob['kind'], JobPoller>> = {};
+const waiters = new Map<string, { resolve: (result: JobResult) => void; reject: (error: unknown) => void; onPoll?: JobHooks['onPoll'] }>();
+const listeners = new Set<(jobs: GenerationJob[]) => void>();
+let jobs: GenerationJob[] = [];
+let initialized = false;
+let jobCounter = 0;
+
+export const registerJobPoller = (kind: GenerationJob['kind'], poller: JobPoller) => {
+  pollers[kind] = poller;
+};
+
+const emit = () => listeners.forEach(listener => listener(jobs));
+
+export const subscribeToJobs = (listener: (jobs: GenerationJob[]) => void): (() => void) => {
+  listeners.add(listener);
+  listener(jobs);
+  return () => { listeners.delete(listener); };
+};
+
+const getJob = (id: string) => jobs.find(j => j.id === id);
+
+const updateJob = (id: string, updates: Partial<GenerationJob>) => {
+  jobs = jobs.map(j => j.id === id ? { ...j, ...updates } : j);
+  const job = getJob(id);
+  if (job) saveJob(job);
+  emit();
+};
+
+// System notification for when the tab is in the background; the tray handles the in-app one
+const announce = (job: GenerationJob) => {
+  if (!('Notification' in window) || Notification.permission !== 'granted' || !document.hidden) return;
+  const succeeded = job.status === 'succeeded';
+  new Notification(succeeded ? 'Video ready' : 'Video generation failed', {
+    body: succeeded ? job.title : job.error || job.title,
+  });
+};
+
+// Every finished job is filed in the library here, whether or not the view that started it is still open
+const fileResult = async (job: GenerationJob, result: JobResult): Promise<string | undefined> => {
+  try {
+    await saveMediaItem({
+      id: job.id,
+      type: 'video',
+      blob: await urlToBlob(result.url),
+      prompt: job.title,
+      source: job.source,
+      modelId: job.modelId,
+      modelName: job.modelName,
+      timestamp: Date.now(),
+    });
+    return job.id;
+  } catch (error) {
+    console.error("Failed to save finished job to library:", error);
+    return undefined;
+  }
+};
+
+const track = async (id: string) => {
+  while (getJob(id)?.status === 'running') {
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+    const job = getJob(id);
+    if (job?.status !== 'running') return; // Cancelled or dismissed while waiting
+
+    const poller = pollers[job.kind];
+    if (!poller) return;
+
+    try {
+      const result = await poller(job.operationName);
+      if (!result || getJob(id)?.status !== 'running') {
+        if (result) URL.revokeObjectURL(result.url); // Cancelled while the download was in flight
+        waiters.get(id)?.onPoll?.(Date.now() - job.createdAt);
+        continue;
+      }
+
+      const mediaId = await fileResult(job, result);
+      const waiter = waiters.get(id);
+      waiters.delete(id);
+      updateJob(id, { status: 'succeeded', finishedAt: Date.now(), mediaId });
+      // Jobs resumed after a reload have nobody waiting on the URL; the library keeps the blob
+      if (waiter) waiter.resolve({ ...result, mediaId });
+      else URL.revokeObjectURL(result.url);
+    } catch (error: any) {
+      if (getJob(id)?.status !== 'running') return;
+      console.error(`Job ${id} failed:`, error);
+      updateJob(id, { status: 'failed', finishedAt: Date.now(), error: error?.message || 'Generation failed.' });
+      waiters.get(id)?.reject(error);
+      waiters.delete(id);
+    }
+    announce(getJob(id)!);
+  }
+};
+
+// Registers a freshly submitted operation and resolves with its result once it completes
+export const runJob = (kind: GenerationJob['kind'], operationName: string, details: JobDetails, hooks: JobHooks = {}): Promise<JobResult> => {
+  if (hooks.signal?.aborted) return Promise.reject(new DOMException('Generation cancelled.', 'AbortError'));
+
+  const job: GenerationJob = {
+    id: `job-${Date.now()}-${jobCounter++}`,
+    kind,
+    operationName,
+    ...details,
+    status: 'running',
+    createdAt: Date.now(),
+  };
+  jobs = [job, ...jobs];
+  saveJob(job);
+  emit();
+
+  if ('Notification' in window && Notification.permission === 'default') {
+    Notification.requestPermission();
+  }
+
+  return new Promise((resolve, reject) => {
+    waiters.set(job.id, { resolve, reject, onPoll: hooks.onPoll });
+    hooks.signal?.addEventListener('abort', () => cancelJob(job.id), { once: true });
+    track(job.id);
+  });
+};
+
+// Veo has no cancel endpoint, so this stops tracking the job; the render itself may still finish server-side
+export const cancelJob = (id: string) => {
+  if (getJob(id)?.status !== 'running') return;
+  updateJob(id, { status: 'cancelled', finishedAt: Date.now() });
+  waiters.get(id)?.reject(new DOMException('Generation cancelled.', 'AbortError'));
+  waiters.delete(id);
+};
+
+export const dismissJob = (id: string) => {
+  if (getJob(id)?.status === 'running') return;
+  jobs = jobs.filter(j => j.id !== id);
+  deleteJobById(id);
+  emit();
+};
+
+export const clearFinishedJobs = () => {
+  jobs.filter(j => j.status !== 'running').forEach(j => deleteJobById(j.id));
+  jobs = jobs.filter(j => j.status === 'running');
+  emit();
+};
+
+// Loads persisted jobs once per page and resumes polling any that were still running
+export const initJobManager = async () => {
+  if (initialized) return;
+  initialized = true;
+
+  const stored = await getAllJobs();
+  const cutoff = Date.now() - FINISHED_RETENTION_MS;
+  const expired = stored.filter(j => j.status !== 'running' && (j.finishedAt || j.createdAt) < cutoff);
+  expired.forEach(j => deleteJobById(j.id));
+
+  // Jobs started while we were loading are already in memory and being tracked
+  const resumed = stored.filter(j => !expired.includes(j) && !getJob(j.id));
+  jobs = [...jobs, ...resumed].sort((a, b) => b.createdAt - a.createdAt);
+  emit();
+
+  resumed.filter(j => j.status === 'running').forEach(j => track(j.id));
+};
@@ -0,0 +1,64 @@
+import { ImageAspectRatio } from '../types';
+import { loadImage } from './mediaUtils';
+
+// Mask canvases are painted with any opaque colour on a transparent background; alpha marks the edit region.
+
+export const isMaskEmpty = (mask: HTMLCanvasElement): boolean => {
+  const { data } = mask.getContext('2d')!.getImageData(0, 0, mask.width, mask.height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] > 0) return false;
+  }
+  return true;
+};
+
+// Black/white PNG the model can read: white = edit, black = keep
+export const maskToBase64 = (mask: HTMLCanvasElement): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = mask.width;
+  canvas.height = mask.height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(mask, 0, 0);
+  ctx.globalCompositeOperation = 'source-in';
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.globalCompositeOperation = 'destination-over';
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/png').split(',')[1];
+};
+
+// The model may return a different size, so the edit is stretched back onto the original
+// and only kept where the mask is painted. Everything else is the untouched original.
+export const compositeMaskedEdit = async (originalUrl: string, editedUrl: string, mask: HTMLCanvasElement): Promise<string> => {
+  const [original, edited] = await Promise.all([loadImage(originalUrl), loadImage(editedUrl)]);
+  const width = original.naturalWidth;
+  const height = original.naturalHeight;
+
+  const patch = document.createElement('canvas');
+  patch.width = width;
+  patch.height = height;
+  const patchCtx = patch.getContext('2d')!;
+  patchCtx.drawImage(edited, 0, 0, width, height);
+  patchCtx.globalCompositeOperation = 'destination-in';
+  patchCtx.drawImage(mask, 0, 0, width, height);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(original, 0, 0);
+  ctx.drawImage(patch, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+// Masked edits must come back at the original shape, so pick the supported ratio nearest to it
+export const closestAspectRatio = (width: number, height: number): ImageAspectRatio => {
+  const target = width / height;
+  const ratioOf = (r: ImageAspectRatio) => {
+    const [w, h] = r.split(':').map(Number);
+    return w / h;
+  };
+  return Object.values(ImageAspectRatio).reduce((best, r) =>
+    Math.abs(ratioOf(r) - target) < Math.abs(ratioOf(best) - target) ? r : best
+  );
+};
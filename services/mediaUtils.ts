@@ -0,0 +1,141 @@
+import { CustomModel, GeneratedMedia, MediaLibraryItem, MediaSource } from '../types';
+import { saveMediaItem } from './storageService';
+
+// Works for data: URLs as well as blob: object URLs
+export const urlToBlob = async (url: string): Promise<Blob> => {
+  const response = await fetch(url);
+  return response.blob();
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to load image."));
+    img.src = src;
+  });
+};
+
+export const loadVideo = (url: string): Promise<HTMLVideoElement> => {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.crossOrigin = 'anonymous';
+    video.onloadedmetadata = () => {
+      if (Number.isFinite(video.duration)) return resolve(video);
+      // Recorded webm (mock clips, stitched exports) has no duration in its header until the browser has seen the end
+      video.ondurationchange = () => {
+        if (!Number.isFinite(video.duration)) return;
+        video.ondurationchange = null;
+        video.onseeked = () => {
+          video.onseeked = null;
+          resolve(video);
+        };
+        video.currentTime = 0;
+      };
+      video.currentTime = Number.MAX_SAFE_INTEGER;
+    };
+    video.onerror = () => reject(new Error("Failed to load video."));
+    video.src = url;
+  });
+};
+
+// Grabs a still from a video as a PNG data URL. 'last' backs off slightly since the very end often fails to decode.
+export const captureVideoFrame = async (url: string, at: 'first' | 'last' | number = 'first'): Promise<string> => {
+  const video = await loadVideo(url);
+  if (!Number.isFinite(video.duration)) throw new Error("Could not read the video's length.");
+  const time = at === 'first' ? 0 : at === 'last' ? Math.max(video.duration - 0.05, 0) : Math.min(at, video.duration);
+  await new Promise<void>((resolve, reject) => {
+    video.onseeked = () => resolve();
+    video.onerror = () => reject(new Error("Failed to seek video."));
+    video.currentTime = time;
+  });
+  const canvas = document.createElement('canvas');
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  canvas.getContext('2d')!.drawImage(video, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Failed to encode canvas.")), type, quality);
+  });
+};
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'video/mp4': 'mp4',
+  'video/webm': 'webm',
+  'video/quicktime': 'mov',
+};
+
+// File extension for a MIME type such as 'video/webm;codecs=vp9', or the fallback if it isn't one we know
+export const getExtensionForType = (mimeType: string, fallback: string) =>
+  MIME_EXTENSIONS[mimeType.split(';')[0].trim().toLowerCase()] || fallback;
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  // Revoking straight away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Downloads a data: or blob: URL, naming the file after its real type (toolkit JPEGs, recorded WebM clips, ...)
+export const downloadMedia = async (url: string, baseName: string, type: MediaLibraryItem['type']) => {
+  const blob = await urlToBlob(url);
+  downloadBlob(blob, `${baseName}.${getExtensionForType(blob.type, type === 'video' ? 'mp4' : 'png')}`);
+};
+
+// Library items hold raw blobs; views need an object URL to render them
+export const toGeneratedMedia = (item: MediaLibraryItem): GeneratedMedia => ({
+  id: item.id,
+  type: item.type,
+  url: URL.createObjectURL(item.blob),
+  prompt: item.prompt,
+  timestamp: item.timestamp,
+  seed: item.seed,
+  favorite: item.favorite,
+});
+
+// Persist a freshly generated item so it survives mode switches and reloads
+export const addToLibrary = async (
+  media: GeneratedMedia,
+  source: MediaSource,
+  model?: CustomModel
+): Promise<void> => {
+  try {
+    const blob = await urlToBlob(media.url);
+    await saveMediaItem({
+      id: media.id,
+      type: media.type,
+      blob,
+      prompt: media.prompt,
+      source,
+      modelId: model?.id,
+      modelName: model?.name,
+      timestamp: media.timestamp,
+      seed: media.seed,
+      favorite: media.favorite,
+    });
+  } catch (error) {
+    console.error("Failed to add media to library:", error);
+  }
+};
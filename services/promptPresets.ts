@@ -0,0 +1,29 @@
+import { PresetTarget, PromptPreset } from '../types';
+
+const VARIABLE_PATTERN = /\{\{\s*([\w-]+)\s*\}\}/g;
+const PROMPT_VARIABLE = 'prompt';
+
+// Variable names in order of first appearance, excluding the built-in {{prompt}}
+export const extractVariables = (template: string): string[] => {
+  const names = Array.from(template.matchAll(VARIABLE_PATTERN), m => m[1]);
+  return Array.from(new Set(names)).filter(name => name !== PROMPT_VARIABLE);
+};
+
+const placesPrompt = (template: string) =>
+  Array.from(template.matchAll(VARIABLE_PATTERN)).some(m => m[1] === PROMPT_VARIABLE);
+
+export const isPresetForTarget = (preset: PromptPreset, target: Exclude<PresetTarget, 'any'>) =>
+  preset.target === 'any' || preset.target === target;
+
+// The exact text sent to the model. Without {{prompt}} in the template, the style is appended to the user's prompt.
+export const composePrompt = (prompt: string, preset?: PromptPreset, values: Record<string, string> = {}): string => {
+  if (!preset) return prompt;
+
+  const style = preset.template
+    .replace(VARIABLE_PATTERN, (_, name: string) => name === PROMPT_VARIABLE ? prompt : (values[name]?.trim() || ''))
+    .trim();
+
+  let composed = placesPrompt(preset.template) ? style : [prompt.trim(), style].filter(Boolean).join(', ');
+  if (preset.negative?.trim()) composed += `\n\nAvoid: ${preset.negative.trim()}`;
+  return composed;
+};
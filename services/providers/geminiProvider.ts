@@ -0,0 +1,217 @@
+import { GoogleGenAI, GenerateVideosOperation, Type } from "@google/genai";
+import { GenerationProvider, InlineImage, JsonSchema, ChatTurn, ModelOption } from "./types";
+
+// Helper to get fresh client instance to ensure latest key is used
+const getClient = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+const FLASH_IMAGE: ModelOption = { id: "gemini-2.5-flash-image", label: "Gemini 2.5 Flash Image" };
+const PRO_IMAGE: ModelOption = { id: "gemini-3-pro-image-preview", label: "Gemini 3 Pro Image (Preview)" };
+const VEO_FAST: ModelOption = { id: "veo-3.1-fast-generate-preview", label: "Veo 3.1 Fast (Preview)" };
+const VEO: ModelOption = { id: "veo-3.1-generate-preview", label: "Veo 3.1 (Preview)" };
+const TEXT_MODELS: ModelOption[] = [
+  { id: "gemini-2.5-flash", label: "Gemini 2.5 Flash" },
+  { id: "gemini-2.5-pro", label: "Gemini 2.5 Pro" },
+  { id: "gemini-2.5-flash-lite", label: "Gemini 2.5 Flash-Lite" },
+];
+
+// Only these accept an output size; the others are fixed at 1K
+const SIZED_IMAGE_MODELS = [PRO_IMAGE.id];
+
+const toInlinePart = (image: InlineImage) => ({ inlineData: { data: image.data, mimeType: image.mimeType } });
+
+const toTurnParts = (turn: ChatTurn) => {
+  const parts: any[] = [];
+  if (turn.image) parts.push(toInlinePart(turn.image));
+  if (turn.text) parts.push({ text: turn.text });
+  return parts;
+};
+
+const firstImage = (response: any): string | null => {
+  for (const part of response.candidates?.[0]?.content?.parts || []) {
+    if (part.inlineData) {
+      return `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`;
+    }
+  }
+  return null;
+};
+
+const toGeminiSchema = (schema: JsonSchema): any => {
+  switch (schema.type) {
+    case 'string':
+      return { type: Type.STRING };
+    case 'array':
+      return { type: Type.ARRAY, items: toGeminiSchema(schema.items) };
+    case 'object':
+      return {
+        type: Type.OBJECT,
+        properties: Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])),
+        ...(schema.required ? { required: schema.required } : {}),
+      };
+  }
+};
+
+export const geminiProvider: GenerationProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  requiresApiKey: true,
+  canExtendVideo: true,
+  models: {
+    image: [FLASH_IMAGE, PRO_IMAGE],
+    imageHighQuality: [PRO_IMAGE, FLASH_IMAGE],
+    video: [VEO_FAST, VEO],
+    videoReference: [VEO], // Reference images and native extension need the full model
+    analysis: TEXT_MODELS,
+    text: TEXT_MODELS,
+  },
+
+  generateImage: async ({ model, prompt, aspectRatio, imageSize, referenceImages, seed }, signal) => {
+    const ai = getClient();
+
+    const config: any = {
+      imageConfig: {
+        aspectRatio: aspectRatio,
+      },
+      abortSignal: signal,
+    };
+
+    if (imageSize && SIZED_IMAGE_MODELS.includes(model)) {
+      config.imageConfig.imageSize = imageSize; // Request higher res for pro model
+    }
+    if (seed !== undefined) config.seed = seed;
+
+    const response = await ai.models.generateContent({
+      model,
+      contents: { parts: [...referenceImages.map(toInlinePart), { text: prompt }] },
+      config,
+    });
+
+    const image = firstImage(response);
+    if (!image) throw new Error("No image generated.");
+    return image;
+  },
+
+  editImage: async ({ model, image, prompt, aspectRatio, imageSize, mask }, signal) => {
+    const ai = getClient();
+
+    // Both models take an aspect ratio; only Pro can be asked for a larger size
+    const config: any = {
+      imageConfig: imageSize && SIZED_IMAGE_MODELS.includes(model) ? { imageSize, aspectRatio } : { aspectRatio },
+      abortSignal: signal,
+    };
+
+    const response = await ai.models.generateContent({
+      model,
+      contents: {
+        parts: [
+          toInlinePart(image),
+          ...(mask ? [toInlinePart(mask)] : []),
+          {
+            text: mask
+              ? `The second image is a mask. Apply the edit only inside the white area of the mask and keep everything in the black area unchanged.\n\nEdit: ${prompt}`
+              : prompt,
+          },
+        ],
+      },
+      config,
+    });
+
+    const edited = firstImage(response);
+    if (!edited) throw new Error("No edited image generated.");
+    return edited;
+  },
+
+  startVideo: async ({ model, prompt, resolution, aspectRatio, referenceImages, startImage, endImage, sourceVideoUri }, signal) => {
+    const ai = getClient();
+
+    const hasRefs = !!referenceImages && referenceImages.length > 0;
+    const isInterpolation = !hasRefs && !!startImage && !!endImage;
+
+    const config: any = {
+      numberOfVideos: 1,
+      resolution: sourceVideoUri || hasRefs || isInterpolation ? '720p' : resolution, // Extension, ref images and interpolation require 720p currently
+      abortSignal: signal,
+    };
+    if (!sourceVideoUri) config.aspectRatio = hasRefs ? '16:9' : aspectRatio; // Ref images require 16:9 currently
+
+    const request: any = { model, prompt, config };
+
+    if (sourceVideoUri) {
+      request.video = { uri: sourceVideoUri };
+    } else if (hasRefs) {
+      // Take up to 3 images
+      config.referenceImages = referenceImages!.slice(0, 3).map(image => ({
+        image: { imageBytes: image.data, mimeType: image.mimeType },
+        referenceType: 'ASSET' // This locks the character visual
+      }));
+    } else if (startImage) {
+      // Image to Video
+      request.image = { imageBytes: startImage.data, mimeType: startImage.mimeType };
+      if (isInterpolation) {
+        config.lastFrame = { imageBytes: endImage!.data, mimeType: endImage!.mimeType };
+      }
+    }
+
+    const operation = await ai.models.generateVideos(request);
+    if (!operation.name) throw new Error("Video generation did not return an operation.");
+    return operation.name;
+  },
+
+  // One status check of a Veo operation, resumable from just its name. Downloads the first video once done.
+  pollVideo: async (operationName) => {
+    const ai = getClient();
+    const operation = new GenerateVideosOperation();
+    operation.name = operationName;
+    const result = await ai.operations.getVideosOperation({ operation });
+    if (!result.done) return null;
+    if (result.error) throw new Error(String(result.error.message || "Video generation failed."));
+
+    const uri = result.response?.generatedVideos?.[0]?.video?.uri;
+    if (!uri) throw new Error("Video generation failed or returned no URI.");
+
+    // Fetch the actual video bytes using the key
+    const videoResponse = await fetch(`${uri}&key=${process.env.API_KEY}`);
+    if (!videoResponse.ok) throw new Error("Failed to download generated video.");
+
+    const blob = await videoResponse.blob();
+    return { url: URL.createObjectURL(blob), uri };
+  },
+
+  generateText: async ({ model, prompt, images = [] }, signal) => {
+    const ai = getClient();
+    const response = await ai.models.generateContent({
+      model,
+      contents: { parts: [...images.map(toInlinePart), { text: prompt }] },
+      config: { abortSignal: signal },
+    });
+    return response.text || "";
+  },
+
+  generateJson: async ({ model, prompt, images = [], schema }, signal) => {
+    const ai = getClient();
+    const response = await ai.models.generateContent({
+      model,
+      contents: { parts: [...images.map(toInlinePart), { text: prompt }] },
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: toGeminiSchema(schema),
+        abortSignal: signal,
+      },
+    });
+    return response.text || "";
+  },
+
+  chat: async ({ model, systemInstruction, history, message }, signal) => {
+    const ai = getClient();
+    const chat = ai.chats.create({
+      model,
+      config: { systemInstruction },
+      history: history.map(turn => ({ role: turn.role, parts: toTurnParts(turn) })),
+    });
+
+    const response = await chat.sendMessage({
+      message: toTurnParts(message),
+      config: { abortSignal: signal },
+    });
+    return response.text || "";
+  },
+};
@@ -0,0 +1,13 @@
+import { GenerationProvider } from './types';
+import { geminiProvider } from './geminiProvider';
+import { mockProvider } from './mockProvider';
+
+export * from './types';
+
+const PROVIDERS: Record<string, GenerationProvider> = {
+  [geminiProvider.id]: geminiProvider,
+  [mockProvider.id]: mockProvider,
+};
+
+// Chosen at build time via AI_PROVIDER in .env.local; defaults to Gemini
+export const getProvider = (): GenerationProvider => PROVIDERS[process.env.AI_PROVIDER || ''] || geminiProvider;
@@ -0,0 +1,203 @@
+import { ImageAspectRatio } from '../../types';
+import { loadImage } from '../mediaUtils';
+import { GenerationProvider, InlineImage, JsonSchema, ModelOption, VideoRequest } from './types';
+
+// Offline stand-in for a real backend: same inputs always give the same placeholder images, clips and text,
+// so every screen can be exercised without a network connection or an API key.
+
+const LATENCY_MS = 600;
+const CLIP_SECONDS = 2;
+const CLIP_FPS = 24;
+const MOCK_ARRAY_LENGTH = 3;
+
+const SIZES: Record<ImageAspectRatio, [number, number]> = {
+  [ImageAspectRatio.SQUARE]: [512, 512],
+  [ImageAspectRatio.PORTRAIT]: [384, 512],
+  [ImageAspectRatio.LANDSCAPE]: [512, 384],
+  [ImageAspectRatio.WIDE]: [512, 288],
+  [ImageAspectRatio.TALL]: [288, 512],
+};
+
+const MOCK_MODEL: ModelOption[] = [{ id: 'mock', label: 'Mock (offline)' }];
+
+const pendingVideos = new Map<string, VideoRequest>();
+let videoCounter = 0;
+
+// FNV-1a, just to turn inputs into stable colours and ids
+const hash = (text: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+const snippet = (text: string, max: number = 60) => {
+  const line = text.trim().split('\n')[0];
+  return line.length > max ? `${line.slice(0, max - 3)}...` : line;
+};
+
+// Simulated network latency that still honours cancellation
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(new DOMException('Request cancelled.', 'AbortError'));
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(new DOMException('Request cancelled.', 'AbortError'));
+  }, { once: true });
+});
+
+const toDataUrl = (image: InlineImage) => `data:${image.mimeType};base64,${image.data}`;
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return { canvas, ctx: canvas.getContext('2d')! };
+};
+
+// Gradient background keyed on the seed text; `phase` (0-1) slides it along for video frames
+const drawBackground = (ctx: CanvasRenderingContext2D, seedText: string, phase: number = 0) => {
+  const { width, height } = ctx.canvas;
+  const hue = hash(seedText) % 360;
+  const shift = phase * width;
+  const gradient = ctx.createLinearGradient(-shift, 0, width * 2 - shift, height);
+  gradient.addColorStop(0, `hsl(${hue}, 60%, 35%)`);
+  gradient.addColorStop(0.5, `hsl(${(hue + 60) % 360}, 60%, 25%)`);
+  gradient.addColorStop(1, `hsl(${hue}, 60%, 35%)`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+};
+
+const drawCover = (ctx: CanvasRenderingContext2D, image: HTMLImageElement, zoom: number = 1, alpha: number = 1) => {
+  const { width, height } = ctx.canvas;
+  const scale = Math.max(width / image.width, height / image.height) * zoom;
+  ctx.globalAlpha = alpha;
+  ctx.drawImage(image, (width - image.width * scale) / 2, (height - image.height * scale) / 2, image.width * scale, image.height * scale);
+  ctx.globalAlpha = 1;
+};
+
+const drawLabel = (ctx: CanvasRenderingContext2D, badge: string, text: string) => {
+  const { width, height } = ctx.canvas;
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+  ctx.fillRect(0, height - 48, width, 48);
+  ctx.fillStyle = '#fff';
+  ctx.font = 'bold 12px sans-serif';
+  ctx.fillText(badge, 12, height - 28);
+  ctx.font = '12px sans-serif';
+  ctx.fillText(snippet(text, Math.floor(width / 7)), 12, height - 12);
+};
+
+const mockValue = (schema: JsonSchema, label: string, topic: string): unknown => {
+  switch (schema.type) {
+    case 'string':
+      return `Placeholder ${label}: ${topic}`;
+    case 'array':
+      return Array.from({ length: MOCK_ARRAY_LENGTH }, (_, i) => mockValue(schema.items, `${label} ${i + 1}`, topic));
+    case 'object':
+      return Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, mockValue(value, `${key} (${label})`, topic)]));
+  }
+};
+
+// Records a short animated clip: a slow push-in on the start frame (fading to the end frame if given),
+// or a drifting gradient when there is nothing to animate
+const renderClip = async (request: VideoRequest): Promise<Blob> => {
+  const [width, height] = SIZES[request.aspectRatio === '9:16' ? ImageAspectRatio.TALL : ImageAspectRatio.WIDE];
+  const { canvas, ctx } = createCanvas(width, height);
+  const start = request.startImage ? await loadImage(toDataUrl(request.startImage)) : null;
+  const end = request.endImage ? await loadImage(toDataUrl(request.endImage)) : null;
+
+  const recorder = new MediaRecorder(canvas.captureStream(CLIP_FPS));
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+  const finished = new Promise<Blob>(resolve => {
+    recorder.onstop = () => resolve(new Blob(chunks, { type: recorder.mimeType || 'video/webm' }));
+  });
+
+  recorder.start();
+  const frames = CLIP_SECONDS * CLIP_FPS;
+  for (let frame = 0; frame <= frames; frame++) {
+    const t = frame / frames;
+    drawBackground(ctx, request.prompt, t);
+    if (start) drawCover(ctx, start, 1 + t * 0.1);
+    if (end) drawCover(ctx, end, 1, t);
+    drawLabel(ctx, 'MOCK VIDEO', request.prompt);
+    await new Promise(resolve => setTimeout(resolve, 1000 / CLIP_FPS));
+  }
+  recorder.stop();
+  return finished;
+};
+
+export const mockProvider: GenerationProvider = {
+  id: 'mock',
+  label: 'Offline Mock',
+  requiresApiKey: false,
+  canExtendVideo: false,
+  models: {
+    image: MOCK_MODEL,
+    imageHighQuality: MOCK_MODEL,
+    video: MOCK_MODEL,
+    videoReference: MOCK_MODEL,
+    analysis: MOCK_MODEL,
+    text: MOCK_MODEL,
+  },
+
+  generateImage: async ({ prompt, aspectRatio, imageSize, referenceImages, seed }, signal) => {
+    await wait(LATENCY_MS, signal);
+    const [width, height] = SIZES[aspectRatio];
+    const scale = imageSize ? 2 : 1;
+    const { canvas, ctx } = createCanvas(width * scale, height * scale);
+    drawBackground(ctx, `${prompt}|${seed ?? ''}`);
+    // Show the references as thumbnails so multi-reference flows are visibly wired up
+    const thumbs = await Promise.all(referenceImages.map(image => loadImage(toDataUrl(image))));
+    thumbs.forEach((thumb, i) => ctx.drawImage(thumb, 12 + i * 76, 12, 64, 64));
+    drawLabel(ctx, `MOCK IMAGE${seed !== undefined ? ` · seed ${seed}` : ''}`, prompt);
+    return canvas.toDataURL('image/png');
+  },
+
+  // Tints the source; masked edits are composited back over the original by the editor
+  editImage: async ({ image, prompt, imageSize }, signal) => {
+    await wait(LATENCY_MS, signal);
+    const source = await loadImage(toDataUrl(image));
+    const scale = imageSize ? 2 : 1;
+    const { canvas, ctx } = createCanvas(source.width * scale, source.height * scale);
+    drawCover(ctx, source);
+    ctx.fillStyle = `hsla(${hash(prompt) % 360}, 70%, 50%, 0.25)`;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    drawLabel(ctx, 'MOCK EDIT', prompt);
+    return canvas.toDataURL('image/png');
+  },
+
+  startVideo: async (request, signal) => {
+    await wait(LATENCY_MS, signal);
+    const name = `mock-video-${hash(request.prompt)}-${videoCounter++}`;
+    pendingVideos.set(name, request);
+    return name;
+  },
+
+  // The clip is rendered on the first poll; requests don't survive a reload
+  pollVideo: async (operationName) => {
+    const request = pendingVideos.get(operationName);
+    if (!request) throw new Error("Mock video request no longer exists.");
+    pendingVideos.delete(operationName);
+    const blob = await renderClip(request);
+    return { url: URL.createObjectURL(blob), uri: `mock://${operationName}` };
+  },
+
+  generateText: async ({ prompt }, signal) => {
+    await wait(LATENCY_MS, signal);
+    return `Placeholder response #${hash(prompt) % 1000} for: "${snippet(prompt)}"`;
+  },
+
+  generateJson: async ({ prompt, schema }, signal) => {
+    await wait(LATENCY_MS, signal);
+    return JSON.stringify(mockValue(schema, 'item', snippet(prompt, 40)));
+  },
+
+  chat: async ({ systemInstruction, history, message }, signal) => {
+    await wait(LATENCY_MS, signal);
+    const persona = snippet(systemInstruction, 40) || 'assistant';
+    return `(${persona}) Placeholder reply #${Math.floor(history.length / 2) + 1} to: "${snippet(message.text || 'an image')}"`;
+  },
+};
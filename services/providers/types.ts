@@ -0,0 +1,88 @@
+import { ImageAspectRatio, ImageSize, ModelCapability, VideoResolution } from '../../types';
+import { JobPoller } from '../jobManager';
+
+export interface ModelOption {
+  id: string;
+  label: string;
+}
+
+// Raw base64 plus its type, the way images travel to and from a backend
+export interface InlineImage {
+  data: string;
+  mimeType: string;
+}
+
+export interface ImageGenerationRequest {
+  model: string;
+  prompt: string;
+  aspectRatio: ImageAspectRatio;
+  imageSize?: ImageSize; // Only for high-quality models
+  referenceImages: InlineImage[];
+  seed?: number;
+}
+
+export interface ImageEditRequest {
+  model: string;
+  image: InlineImage;
+  prompt: string;
+  aspectRatio: ImageAspectRatio;
+  imageSize?: ImageSize;
+  mask?: InlineImage; // White marks the only region that may change
+}
+
+export interface VideoRequest {
+  model: string;
+  prompt: string;
+  resolution: VideoResolution;
+  aspectRatio: string;
+  referenceImages?: InlineImage[]; // Character/asset references
+  startImage?: InlineImage;
+  endImage?: InlineImage; // With startImage, the motion is interpolated between the two frames
+  sourceVideoUri?: string; // Extends a clip the provider generated earlier; only when canExtendVideo
+}
+
+export interface TextRequest {
+  model: string;
+  prompt: string;
+  images?: InlineImage[]; // Sent ahead of the prompt
+}
+
+// The subset of JSON Schema the app's structured calls need
+export type JsonSchema =
+  | { type: 'string' }
+  | { type: 'array'; items: JsonSchema }
+  | { type: 'object'; properties: Record<string, JsonSchema>; required?: string[] };
+
+export interface JsonRequest extends TextRequest {
+  schema: JsonSchema;
+}
+
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+  image?: InlineImage;
+}
+
+export interface ChatRequest {
+  model: string;
+  systemInstruction: string;
+  history: ChatTurn[];
+  message: ChatTurn;
+}
+
+// A generation backend. Calls reject with an AbortError once the signal fires;
+// retries and progress reporting are layered on top by geminiService.
+export interface GenerationProvider {
+  id: string;
+  label: string;
+  requiresApiKey: boolean;
+  canExtendVideo: boolean;
+  models: Record<ModelCapability, ModelOption[]>; // The first option of each is the default
+  generateImage: (request: ImageGenerationRequest, signal?: AbortSignal) => Promise<string>; // Image data URL
+  editImage: (request: ImageEditRequest, signal?: AbortSignal) => Promise<string>;
+  startVideo: (request: VideoRequest, signal?: AbortSignal) => Promise<string>; // Operation name for pollVideo
+  pollVideo: JobPoller;
+  generateText: (request: TextRequest, signal?: AbortSignal) => Promise<string>;
+  generateJson: (request: JsonRequest, signal?: AbortSignal) => Promise<string>; // Raw JSON text matching the schema
+  chat: (request: ChatRequest, signal?: AbortSignal) => Promise<string>;
+}
@@ -0,0 +1,49 @@
+import { AppSettings, ImageAspectRatio, ModelCapability, VideoResolution } from '../types';
+import { getSetting, saveSetting } from './storageService';
+import { getProvider, ModelOption } from './providers';
+
+// App-wide preferences, kept in memory so services and components can read them synchronously.
+// Loaded once at startup and written back to the settings store on every change.
+
+const SETTINGS_KEY = 'app_settings';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  models: {},
+  imageSize: '2K',
+  imageAspectRatio: ImageAspectRatio.SQUARE,
+  videoAspectRatio: '16:9',
+  videoResolution: VideoResolution.HD,
+  maxRetries: 20, // High enough to wait out most quota limits
+  maxBackoffMs: 10000,
+};
+
+let settings: AppSettings = DEFAULT_SETTINGS;
+const listeners = new Set<(settings: AppSettings) => void>();
+
+export const getSettings = () => settings;
+
+export const subscribeToSettings = (listener: (settings: AppSettings) => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const loadSettings = async () => {
+  const saved = await getSetting<Partial<AppSettings>>(SETTINGS_KEY);
+  settings = { ...DEFAULT_SETTINGS, ...saved, models: { ...saved?.models } };
+  listeners.forEach(listener => listener(settings));
+};
+
+export const updateSettings = async (updates: Partial<AppSettings>) => {
+  settings = { ...settings, ...updates };
+  listeners.forEach(listener => listener(settings));
+  await saveSetting(SETTINGS_KEY, settings);
+};
+
+export const getModelOptions = (capability: ModelCapability): ModelOption[] => getProvider().models[capability];
+
+// The chosen model for a capability, or the provider's default if the choice isn't one it offers
+export const getModel = (capability: ModelCapability): string => {
+  const options = getModelOptions(capability);
+  const chosen = settings.models[capability];
+  return options.some(o => o.id === chosen) ? chosen! : options[0].id;
+};
@@ -1,35 +1,131 @@
-import { CustomModel } from '../types';
+import { CustomModel, MediaLibraryItem, ChatThread, StoryboardProject, PromptPreset, GenerationJob } from '../types';
 
 const DB_NAME = 'OmniCreateDB';
-const DB_VERSION = 1;
+const DB_VERSION = 7;
 const STORE_NAME = 'custom_models';
+const MEDIA_STORE_NAME = 'media_library';
+const CHAT_STORE_NAME = 'chat_threads';
+const SETTINGS_STORE_NAME = 'settings';
+const STORYBOARD_STORE_NAME = 'storyboard_projects';
+const PRESET_STORE_NAME = 'prompt_presets';
+const JOB_STORE_NAME = 'generation_jobs';
+
+// Every store's records, keyed by store name. Used for whole-workspace backup/restore.
+export type DatabaseSnapshot = Record<string, any[]>;
+
+// The property each store's records are keyed by
+const STORE_KEY_PATHS: Record<string, string> = {
+  [STORE_NAME]: 'id',
+  [MEDIA_STORE_NAME]: 'id',
+  [CHAT_STORE_NAME]: 'id',
+  [SETTINGS_STORE_NAME]: 'key',
+  [STORYBOARD_STORE_NAME]: 'id',
+  [PRESET_STORE_NAME]: 'id',
+  [JOB_STORE_NAME]: 'id',
+};
+
+export const getStoreKeyPath = (storeName: string): string | undefined => STORE_KEY_PATHS[storeName];
+
+// One shared connection for the whole app, opened on first use
+let dbPromise: Promise<IDBDatabase> | null = null;
 
 const openDB = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = connect().catch(error => {
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+};
+
+const connect = (): Promise<IDBDatabase> => {
   return new Promise((resolve, reject) => {
     const request = indexedDB.open(DB_NAME, DB_VERSION);
-    
+    let settled = false;
+
     request.onupgradeneeded = (event) => {
       const db = (event.target as IDBOpenDBRequest).result;
+      // v1: character library
       if (!db.objectStoreNames.contains(STORE_NAME)) {
         db.createObjectStore(STORE_NAME, { keyPath: 'id' });
       }
+      // v2: persistent media library (generated images & video blobs)
+      if (!db.objectStoreNames.contains(MEDIA_STORE_NAME)) {
+        const mediaStore = db.createObjectStore(MEDIA_STORE_NAME, { keyPath: 'id' });
+        mediaStore.createIndex('timestamp', 'timestamp');
+        mediaStore.createIndex('source', 'source');
+        mediaStore.createIndex('modelId', 'modelId');
+      }
+      // v3: per-character chat threads
+      if (!db.objectStoreNames.contains(CHAT_STORE_NAME)) {
+        const chatStore = db.createObjectStore(CHAT_STORE_NAME, { keyPath: 'id' });
+        chatStore.createIndex('modelId', 'modelId');
+      }
+      // v4: key/value app settings
+      if (!db.objectStoreNames.contains(SETTINGS_STORE_NAME)) {
+        db.createObjectStore(SETTINGS_STORE_NAME, { keyPath: 'key' });
+      }
+      // v5: saved storyboard projects
+      if (!db.objectStoreNames.contains(STORYBOARD_STORE_NAME)) {
+        db.createObjectStore(STORYBOARD_STORE_NAME, { keyPath: 'id' });
+      }
+      // v6: reusable prompt/style presets
+      if (!db.objectStoreNames.contains(PRESET_STORE_NAME)) {
+        db.createObjectStore(PRESET_STORE_NAME, { keyPath: 'id' });
+      }
+      // v7: background generation jobs (pending operation handles)
+      if (!db.objectStoreNames.contains(JOB_STORE_NAME)) {
+        db.createObjectStore(JOB_STORE_NAME, { keyPath: 'id' });
+      }
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Blocked earlier and already rejected; don't hold on to a connection nobody uses
+      if (settled) return db.close();
+      settled = true;
+      // Let a newer version of the app in another tab upgrade the schema instead of waiting on us forever
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      db.onclose = () => { dbPromise = null; };
+      resolve(db);
+    };
+    request.onerror = () => {
+      settled = true;
+      reject(request.error);
+    };
+    // Another tab running older code still has the database open, so the upgrade can't start
+    request.onblocked = () => {
+      if (settled) return;
+      settled = true;
+      reject(new Error("The library database is in use by another OmniCreate tab. Close other tabs and reload."));
     };
+  });
+};
 
-    request.onsuccess = () => resolve(request.result);
+// Runs a single request against one object store and resolves with its result
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = makeRequest(tx.objectStore(storeName));
+    request.onsuccess = () => resolve(request.result as T);
     request.onerror = () => reject(request.error);
   });
 };
 
+// --- Character Library ---
+
 export const getAllModels = async (): Promise<CustomModel[]> => {
   try {
-    const db = await openDB();
-    return new Promise((resolve, reject) => {
-      const tx = db.transaction(STORE_NAME, 'readonly');
-      const store = tx.objectStore(STORE_NAME);
-      const request = store.getAll();
-      request.onsuccess = () => resolve(request.result as CustomModel[]);
-      request.onerror = () => reject(request.error);
-    });
+    return await runRequest<CustomModel[]>(STORE_NAME, 'readonly', store => store.getAll());
   } catch (error) {
     console.error("IndexedDB error:", error);
     return [];
@@ -38,30 +134,297 @@ export const getAllModels = async (): Promise<CustomModel[]> => {
 
 export const saveModel = async (model: CustomModel): Promise<void> => {
   try {
-    const db = await openDB();
-    return new Promise((resolve, reject) => {
-      const tx = db.transaction(STORE_NAME, 'readwrite');
-      const store = tx.objectStore(STORE_NAME);
-      const request = store.put(model);
-      request.onsuccess = () => resolve();
-      request.onerror = () => reject(request.error);
-    });
+    await runRequest(STORE_NAME, 'readwrite', store => store.put(model));
   } catch (error) {
     console.error("IndexedDB save error:", error);
   }
 };
 
 export const deleteModelById = async (id: string): Promise<void> => {
-   try {
+  try {
+    await runRequest(STORE_NAME, 'readwrite', store => store.delete(id));
+  } catch (error) {
+    console.error("IndexedDB delete error:", error);
+  }
+};
+
+// --- Media Library ---
+
+// Returns every saved item, newest first
+export const getAllMedia = async (): Promise<MediaLibraryItem[]> => {
+  try {
+    const items = await runRequest<MediaLibraryItem[]>(MEDIA_STORE_NAME, 'readonly', store => store.getAll());
+    return items.sort((a, b) => b.timestamp - a.timestamp);
+  } catch (error) {
+    console.error("IndexedDB media error:", error);
+    return [];
+  }
+};
+
+export const saveMediaItem = async (item: MediaLibraryItem): Promise<void> => {
+  try {
+    await runRequest(MEDIA_STORE_NAME, 'readwrite', store => store.put(item));
+  } catch (error) {
+    console.error("IndexedDB media save error:", error);
+  }
+};
+
+// Changes metadata (e.g. favorite) without rewriting the caller's copy of the blob.
+// Read and write share one transaction so quick successive updates can't overwrite each other.
+export const updateMediaItem = async (id: string, updates: Partial<MediaLibraryItem>): Promise<void> => {
+  try {
     const db = await openDB();
-    return new Promise((resolve, reject) => {
-      const tx = db.transaction(STORE_NAME, 'readwrite');
-      const store = tx.objectStore(STORE_NAME);
-      const request = store.delete(id);
-      request.onsuccess = () => resolve();
-      request.onerror = () => reject(request.error);
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(MEDIA_STORE_NAME, 'readwrite');
+      const store = tx.objectStore(MEDIA_STORE_NAME);
+      const request = store.get(id);
+      request.onsuccess = () => {
+        if (request.result) store.put({ ...request.result, ...updates });
+      };
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
     });
   } catch (error) {
-    console.error("IndexedDB delete error:", error);
+    console.error("IndexedDB media update error:", error);
+  }
+};
+
+export const deleteMediaItemById = async (id: string): Promise<void> => {
+  try {
+    await runRequest(MEDIA_STORE_NAME, 'readwrite', store => store.delete(id));
+  } catch (error) {
+    console.error("IndexedDB media delete error:", error);
+  }
+};
+
+// --- Chat Threads ---
+
+// Threads for one character, most recently used first
+export const getThreadsForModel = async (modelId: string): Promise<ChatThread[]> => {
+  try {
+    const threads = await runRequest<ChatThread[]>(CHAT_STORE_NAME, 'readonly', store => store.index('modelId').getAll(modelId));
+    return threads.sort((a, b) => b.lastModified - a.lastModified);
+  } catch (error) {
+    console.error("IndexedDB chat error:", error);
+    return [];
+  }
+};
+
+export const saveThread = async (thread: ChatThread): Promise<void> => {
+  try {
+    await runRequest(CHAT_STORE_NAME, 'readwrite', store => store.put(thread));
+  } catch (error) {
+    console.error("IndexedDB chat save error:", error);
+  }
+};
+
+export const deleteThreadById = async (id: string): Promise<void> => {
+  try {
+    await runRequest(CHAT_STORE_NAME, 'readwrite', store => store.delete(id));
+  } catch (error) {
+    console.error("IndexedDB chat delete error:", error);
+  }
+};
+
+export const deleteThreadsForModel = async (modelId: string): Promise<void> => {
+  const threads = await getThreadsForModel(modelId);
+  await Promise.all(threads.map(t => deleteThreadById(t.id)));
+};
+
+// --- Storyboard Projects ---
+
+// Most recently edited first
+export const getAllProjects = async (): Promise<StoryboardProject[]> => {
+  try {
+    const projects = await runRequest<StoryboardProject[]>(STORYBOARD_STORE_NAME, 'readonly', store => store.getAll());
+    return projects.sort((a, b) => b.lastModified - a.lastModified);
+  } catch (error) {
+    console.error("IndexedDB storyboard error:", error);
+    return [];
   }
-};
\ No newline at end of file
+};
+
+export const saveProject = async (project: StoryboardProject): Promise<void> => {
+  try {
+    await runRequest(STORYBOARD_STORE_NAME, 'readwrite', store => store.put(project));
+  } catch (error) {
+    console.error("IndexedDB storyboard save error:", error);
+  }
+};
+
+// Applies a change to a stored project in one transaction and resolves with the result, or undefined if it is gone
+export const updateProject = async (
+  id: string,
+  update: (project: StoryboardProject) => StoryboardProject
+): Promise<StoryboardProject | undefined> => {
+  try {
+    const db = await openDB();
+    return await new Promise((resolve, reject) => {
+      const tx = db.transaction(STORYBOARD_STORE_NAME, 'readwrite');
+      const store = tx.objectStore(STORYBOARD_STORE_NAME);
+      const request = store.get(id);
+      let updated: StoryboardProject | undefined;
+      request.onsuccess = () => {
+        if (!request.result) return;
+        updated = update(request.result);
+        store.put(updated);
+      };
+      tx.oncomplete = () => resolve(updated);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } catch (error) {
+    console.error("IndexedDB storyboard update error:", error);
+    return undefined;
+  }
+};
+
+export const deleteProjectById = async (id: string): Promise<void> => {
+  try {
+    await runRequest(STORYBOARD_STORE_NAME, 'readwrite', store => store.delete(id));
+  } catch (error) {
+    console.error("IndexedDB storyboard delete error:", error);
+  }
+};
+
+// --- Prompt Presets ---
+
+// Alphabetical, as they appear in pickers
+export const getAllPresets = async (): Promise<PromptPreset[]> => {
+  try {
+    const presets = await runRequest<PromptPreset[]>(PRESET_STORE_NAME, 'readonly', store => store.getAll());
+    return presets.sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    console.error("IndexedDB preset error:", error);
+    return [];
+  }
+};
+
+export const savePreset = async (preset: PromptPreset): Promise<void> => {
+  try {
+    await runRequest(PRESET_STORE_NAME, 'readwrite', store => store.put(preset));
+  } catch (error) {
+    console.error("IndexedDB preset save error:", error);
+  }
+};
+
+export const deletePresetById = async (id: string): Promise<void> => {
+  try {
+    await runRequest(PRESET_STORE_NAME, 'readwrite', store => store.delete(id));
+  } catch (error) {
+    console.error("IndexedDB preset delete error:", error);
+  }
+};
+
+// --- Generation Jobs ---
+
+// Newest first
+export const getAllJobs = async (): Promise<GenerationJob[]> => {
+  try {
+    const jobs = await runRequest<GenerationJob[]>(JOB_STORE_NAME, 'readonly', store => store.getAll());
+    return jobs.sort((a, b) => b.createdAt - a.createdAt);
+  } catch (error) {
+    console.error("IndexedDB job error:", error);
+    return [];
+  }
+};
+
+export const saveJob = async (job: GenerationJob): Promise<void> => {
+  try {
+    await runRequest(JOB_STORE_NAME, 'readwrite', store => store.put(job));
+  } catch (error) {
+    console.error("IndexedDB job save error:", error);
+  }
+};
+
+export const deleteJobById = async (id: string): Promise<void> => {
+  try {
+    await runRequest(JOB_STORE_NAME, 'readwrite', store => store.delete(id));
+  } catch (error) {
+    console.error("IndexedDB job delete error:", error);
+  }
+};
+
+// --- Settings ---
+
+export const getSetting = async <T>(key: string): Promise<T | undefined> => {
+  try {
+    const record = await runRequest<{ key: string; value: T } | undefined>(SETTINGS_STORE_NAME, 'readonly', store => store.get(key));
+    return record?.value;
+  } catch (error) {
+    console.error("IndexedDB settings error:", error);
+    return undefined;
+  }
+};
+
+export const saveSetting = async <T>(key: string, value: T): Promise<void> => {
+  try {
+    await runRequest(SETTINGS_STORE_NAME, 'readwrite', store => store.put({ key, value }));
+  } catch (error) {
+    console.error("IndexedDB settings save error:", error);
+  }
+};
+
+// --- Bulk Access ---
+
+export const getDatabaseVersion = () => DB_VERSION;
+
+// Reads every object store in one transaction so the snapshot is consistent
+export const exportDatabase = async (): Promise<DatabaseSnapshot> => {
+  const db = await openDB();
+  const storeNames = Array.from(db.objectStoreNames);
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeNames, 'readonly');
+    const snapshot: DatabaseSnapshot = {};
+    storeNames.forEach(name => {
+      const request = tx.objectStore(name).getAll();
+      request.onsuccess = () => { snapshot[name] = request.result; };
+    });
+    tx.oncomplete = () => resolve(snapshot);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const getStoreCounts = async (): Promise<Record<string, number>> => {
+  const db = await openDB();
+  const storeNames = Array.from(db.objectStoreNames);
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeNames, 'readonly');
+    const counts: Record<string, number> = {};
+    storeNames.forEach(name => {
+      const request = tx.objectStore(name).count();
+      request.onsuccess = () => { counts[name] = request.result; };
+    });
+    tx.oncomplete = () => resolve(counts);
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+// Replaces the contents of every store in the snapshot atomically.
+// If any write fails the transaction aborts and the database is left untouched.
+// Stores unknown to this schema version are ignored.
+export const restoreDatabase = async (snapshot: DatabaseSnapshot): Promise<void> => {
+  const db = await openDB();
+  const storeNames = Object.keys(snapshot).filter(name => db.objectStoreNames.contains(name));
+  if (storeNames.length === 0) return;
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeNames, 'readwrite');
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+    try {
+      storeNames.forEach(name => {
+        const store = tx.objectStore(name);
+        store.clear();
+        snapshot[name].forEach(record => store.put(record));
+      });
+    } catch (error) {
+      // put() throws synchronously on a bad key or an uncloneable value; roll back the clears too
+      tx.onabort = null;
+      tx.abort();
+      reject(error);
+    }
+  });
+};
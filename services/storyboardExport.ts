@@ -0,0 +1,260 @@
+import { StoryboardPanel } from '../types';
+import { loadImage, canvasToBlob } from './mediaUtils';
+
+// Storyboard sheets are drawn onto canvases entirely in the browser, then saved as PNG or wrapped into a PDF.
+
+export type SheetLayout = '2x2' | '3x2' | '1x1';
+
+export const SHEET_LAYOUTS: { id: SheetLayout; label: string; cols: number; rows: number }[] = [
+  { id: '2x2', label: '2 × 2', cols: 2, rows: 2 },
+  { id: '3x2', label: '3 × 2', cols: 3, rows: 2 },
+  { id: '1x1', label: '1 per page', cols: 1, rows: 1 },
+];
+
+// A4 landscape at 150 DPI, and the same page in PDF points
+const PAGE_WIDTH = 1754;
+const PAGE_HEIGHT = 1240;
+const PDF_PAGE_WIDTH = 842;
+const PDF_PAGE_HEIGHT = 595;
+
+// Browsers refuse canvases much beyond ~16 megapixels (Safari's limit), so tall contact sheets are scaled to fit
+const MAX_CANVAS_AREA = 16_000_000;
+
+const MARGIN = 60;
+const HEADER_HEIGHT = 70;
+const GAP = 30;
+
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (ctx.measureText(candidate).width > maxWidth && line) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+};
+
+// Draws as many lines as fit and returns the y position after the last one
+const drawTextBlock = (
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  x: number,
+  y: number,
+  maxWidth: number,
+  maxY: number,
+  lineHeight: number
+): number => {
+  const lines = wrapText(ctx, text, maxWidth);
+  for (let i = 0; i < lines.length; i++) {
+    if (y + lineHeight > maxY) break;
+    const isLastVisible = i < lines.length - 1 && y + lineHeight * 2 > maxY;
+    ctx.fillText(isLastVisible ? `${lines[i]}…` : lines[i], x, y);
+    y += lineHeight;
+  }
+  return y;
+};
+
+const drawHeader = (ctx: CanvasRenderingContext2D, title: string, subtitle: string) => {
+  ctx.fillStyle = '#111827';
+  ctx.font = 'bold 32px sans-serif';
+  ctx.textBaseline = 'top';
+  ctx.fillText(title, MARGIN, MARGIN);
+  ctx.fillStyle = '#6b7280';
+  ctx.font = '22px sans-serif';
+  ctx.textAlign = 'right';
+  ctx.fillText(subtitle, PAGE_WIDTH - MARGIN, MARGIN + 8);
+  ctx.textAlign = 'left';
+};
+
+const drawPanelCell = (
+  ctx: CanvasRenderingContext2D,
+  panel: StoryboardPanel,
+  index: number,
+  image: HTMLImageElement | undefined,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+) => {
+  const imageHeight = Math.min(width * 9 / 16, height * 0.7);
+  ctx.fillStyle = '#e5e7eb';
+  ctx.fillRect(x, y, width, imageHeight);
+
+  if (image) {
+    const scale = Math.min(width / image.width, imageHeight / image.height);
+    const w = image.width * scale;
+    const h = image.height * scale;
+    ctx.drawImage(image, x + (width - w) / 2, y + (imageHeight - h) / 2, w, h);
+  } else {
+    ctx.fillStyle = '#9ca3af';
+    ctx.font = '20px sans-serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText('No image', x + width / 2, y + imageHeight / 2);
+    ctx.textAlign = 'left';
+  }
+
+  ctx.strokeStyle = '#9ca3af';
+  ctx.lineWidth = 2;
+  ctx.strokeRect(x, y, width, imageHeight);
+
+  // Scene Number Badge
+  const badgeSize = Math.max(16, Math.round(width / 45));
+  ctx.font = `bold ${badgeSize}px monospace`;
+  ctx.textBaseline = 'top';
+  const badge = `SCENE ${index + 1}`;
+  const badgeWidth = ctx.measureText(badge).width + badgeSize;
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+  ctx.fillRect(x + 10, y + 10, badgeWidth, badgeSize * 1.6);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillText(badge, x + 10 + badgeSize / 2, y + 10 + badgeSize * 0.3);
+
+  const fontSize = Math.max(16, Math.round(width / 42));
+  const lineHeight = fontSize * 1.35;
+  const bottom = y + height;
+  let textY = y + imageHeight + 14;
+
+  ctx.fillStyle = '#111827';
+  ctx.font = `${fontSize}px sans-serif`;
+  textY = drawTextBlock(ctx, panel.description, x, textY, width, bottom, lineHeight);
+
+  if (panel.notes?.trim()) {
+    ctx.fillStyle = '#6b7280';
+    ctx.font = `italic ${fontSize * 0.9}px sans-serif`;
+    drawTextBlock(ctx, `Notes: ${panel.notes.trim()}`, x, textY + 6, width, bottom, lineHeight * 0.9);
+  }
+};
+
+const loadPanelImages = (panels: StoryboardPanel[]) =>
+  Promise.all(panels.map(p => p.imageUrl ? loadImage(p.imageUrl).catch(() => undefined) : Promise.resolve(undefined)));
+
+const getLayout = (layout: SheetLayout) => SHEET_LAYOUTS.find(l => l.id === layout)!;
+
+const renderPages = async (panels: StoryboardPanel[], layout: SheetLayout, title: string): Promise<HTMLCanvasElement[]> => {
+  const { cols, rows } = getLayout(layout);
+  const images = await loadPanelImages(panels);
+  const perPage = cols * rows;
+  const pageCount = Math.ceil(panels.length / perPage);
+  const cellWidth = (PAGE_WIDTH - MARGIN * 2 - GAP * (cols - 1)) / cols;
+  const cellHeight = (PAGE_HEIGHT - MARGIN * 2 - HEADER_HEIGHT - GAP * (rows - 1)) / rows;
+
+  const pages: HTMLCanvasElement[] = [];
+  for (let page = 0; page < pageCount; page++) {
+    const canvas = document.createElement('canvas');
+    canvas.width = PAGE_WIDTH;
+    canvas.height = PAGE_HEIGHT;
+    const ctx = canvas.getContext('2d')!;
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, PAGE_WIDTH, PAGE_HEIGHT);
+    drawHeader(ctx, title, `Page ${page + 1} of ${pageCount}`);
+
+    for (let slot = 0; slot < perPage; slot++) {
+      const index = page * perPage + slot;
+      if (index >= panels.length) break;
+      const x = MARGIN + (slot % cols) * (cellWidth + GAP);
+      const y = MARGIN + HEADER_HEIGHT + Math.floor(slot / cols) * (cellHeight + GAP);
+      drawPanelCell(ctx, panels[index], index, images[index], x, y, cellWidth, cellHeight);
+    }
+    pages.push(canvas);
+  }
+  return pages;
+};
+
+// Single tall image with every panel; the layout only decides the column count
+export const renderContactSheet = async (panels: StoryboardPanel[], layout: SheetLayout, title: string): Promise<Blob> => {
+  const { cols } = getLayout(layout);
+  const images = await loadPanelImages(panels);
+  const cellWidth = (PAGE_WIDTH - MARGIN * 2 - GAP * (cols - 1)) / cols;
+  const cellHeight = cellWidth * 9 / 16 / 0.7;
+  const rowCount = Math.ceil(panels.length / cols);
+  const sheetHeight = MARGIN * 2 + HEADER_HEIGHT + rowCount * cellHeight + (rowCount - 1) * GAP;
+  const scale = Math.min(1, Math.sqrt(MAX_CANVAS_AREA / (PAGE_WIDTH * sheetHeight)));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.floor(PAGE_WIDTH * scale);
+  canvas.height = Math.floor(sheetHeight * scale);
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  // Lay out at full size and let the transform shrink it
+  ctx.scale(scale, scale);
+  drawHeader(ctx, title, `${panels.length} scenes`);
+
+  panels.forEach((panel, index) => {
+    const x = MARGIN + (index % cols) * (cellWidth + GAP);
+    const y = MARGIN + HEADER_HEIGHT + Math.floor(index / cols) * (cellHeight + GAP);
+    drawPanelCell(ctx, panel, index, images[index], x, y, cellWidth, cellHeight);
+  });
+
+  return canvasToBlob(canvas, 'image/png');
+};
+
+// Minimal PDF writer: one full-page JPEG per page
+const buildPdf = (pages: { jpeg: Uint8Array; width: number; height: number }[]): Blob => {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (chunk: string | Uint8Array) => {
+    const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+    parts.push(bytes);
+    length += bytes.length;
+  };
+  const beginObject = (id: number) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+  };
+
+  const objectCount = 2 + pages.length * 3;
+  const pageIds = pages.map((_, i) => 3 + i * 3);
+
+  write('%PDF-1.4\n');
+  beginObject(1);
+  write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+  beginObject(2);
+  write(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>\nendobj\n`);
+
+  pages.forEach((page, i) => {
+    const pageId = pageIds[i];
+    const imageId = pageId + 1;
+    const contentId = pageId + 2;
+    const content = `q ${PDF_PAGE_WIDTH} 0 0 ${PDF_PAGE_HEIGHT} 0 0 cm /Im0 Do Q`;
+
+    beginObject(pageId);
+    write(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] /Resources << /XObject << /Im0 ${imageId} 0 R >> >> /Contents ${contentId} 0 R >>\nendobj\n`);
+    beginObject(imageId);
+    write(`<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`);
+    write(page.jpeg);
+    write('\nendstream\nendobj\n');
+    beginObject(contentId);
+    write(`<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`);
+  });
+
+  const xrefOffset = length;
+  write(`xref\n0 ${objectCount + 1}\n0000000000 65535 f \n`);
+  for (let id = 1; id <= objectCount; id++) {
+    write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${objectCount + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(parts, { type: 'application/pdf' });
+};
+
+export const renderStoryboardPdf = async (panels: StoryboardPanel[], layout: SheetLayout, title: string): Promise<Blob> => {
+  const canvases = await renderPages(panels, layout, title);
+  const pages = await Promise.all(canvases.map(async canvas => ({
+    jpeg: new Uint8Array(await (await canvasToBlob(canvas, 'image/jpeg', 0.92)).arrayBuffer()),
+    width: canvas.width,
+    height: canvas.height,
+  })));
+  return buildPdf(pages);
+};
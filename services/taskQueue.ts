@@ -0,0 +1,32 @@
+// Runs at most `concurrency` tasks at once; the rest wait in submission order
+export const createTaskQueue = (initialConcurrency: number) => {
+  let concurrency = initialConcurrency;
+  let active = 0;
+  const waiting: (() => void)[] = [];
+
+  const next = () => {
+    if (active >= concurrency) return;
+    const start = waiting.shift();
+    if (!start) return;
+    active++;
+    start();
+  };
+
+  const enqueue = <T>(task: () => Promise<T>): Promise<T> => new Promise<T>((resolve, reject) => {
+    waiting.push(() => {
+      task().then(resolve, reject).finally(() => {
+        active--;
+        next();
+      });
+    });
+    next();
+  });
+
+  // Raising the limit starts waiting tasks right away; lowering it lets running ones finish first
+  const setConcurrency = (limit: number) => {
+    concurrency = limit;
+    while (active < concurrency && waiting.length > 0) next();
+  };
+
+  return Object.assign(enqueue, { setConcurrency });
+};
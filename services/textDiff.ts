@@ -0,0 +1,59 @@
+export interface DiffSegment {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+// Split into words while keeping the whitespace attached, so segments rejoin losslessly
+const tokenize = (text: string): string[] => text.match(/\S+\s*/g) || [];
+
+const normalize = (token: string) => token.trim().toLowerCase();
+
+// Word-level diff (LCS) from `before` to `after`
+export const diffWords = (before: string, after: string): DiffSegment[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  // lcs[i][j] = length of the common subsequence of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = normalize(a[i]) === normalize(b[j])
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (type: DiffSegment['type'], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) last.text += text;
+    else segments.push({ type, text });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (normalize(a[i]) === normalize(b[j])) {
+      push('equal', b[j]);
+      i++; j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+  return segments;
+};
+
+const splitClauses = (text: string): string[] =>
+  text.split(/[,.;\n]+/).map(c => c.trim()).filter(Boolean);
+
+// Keep everything in `current` and append descriptors from `incoming` it doesn't already mention
+export const mergeDescriptors = (current: string, incoming: string): string => {
+  const existing = splitClauses(current);
+  const seen = new Set(existing.map(c => c.toLowerCase()));
+  const additions = splitClauses(incoming).filter(c => !seen.has(c.toLowerCase()));
+  return [...existing, ...additions].join(', ');
+};
@@ -0,0 +1,150 @@
+import { getExtensionForType, loadVideo } from './mediaUtils';
+
+// Client-side video assembly: clips are played into a canvas which is recorded with MediaRecorder.
+// Rendering happens in real time, so stitching takes as long as the finished video. Audio is not carried over.
+
+export type TransitionType = 'cut' | 'crossfade' | 'fade_black';
+
+export interface StitchClip {
+  url: string;
+  durationSec?: number; // Omit to use the clip's natural length; longer values loop the clip
+  startSec?: number; // Skip the beginning of the clip, e.g. the source part of a native extension
+}
+
+export interface StitchOptions {
+  transition: TransitionType;
+  transitionSec: number;
+  fps?: number;
+  onProgress?: (fraction: number) => void;
+}
+
+const pickMimeType = () => {
+  const candidates = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm', 'video/mp4'];
+  return candidates.find(type => MediaRecorder.isTypeSupported(type)) || '';
+};
+
+// Letterbox the frame into the canvas without distorting it
+const drawContained = (ctx: CanvasRenderingContext2D, video: HTMLVideoElement, alpha: number) => {
+  const { width, height } = ctx.canvas;
+  const scale = Math.min(width / video.videoWidth, height / video.videoHeight);
+  const w = video.videoWidth * scale;
+  const h = video.videoHeight * scale;
+  ctx.globalAlpha = alpha;
+  ctx.drawImage(video, (width - w) / 2, (height - h) / 2, w, h);
+  ctx.globalAlpha = 1;
+};
+
+// Page timers are throttled to once a second or slower in background tabs, and requestAnimationFrame stops
+// altogether, but timers inside a dedicated worker keep their rate. Returns a function that stops the ticks.
+const startFrameTicker = (frameMs: number, onTick: () => void): (() => void) => {
+  const source = `setInterval(() => postMessage(0), ${frameMs});`;
+  const url = URL.createObjectURL(new Blob([source], { type: 'text/javascript' }));
+  const worker = new Worker(url);
+  worker.onmessage = onTick;
+  return () => {
+    worker.terminate();
+    URL.revokeObjectURL(url);
+  };
+};
+
+export const getStitchedExtension = (blob: Blob) => getExtensionForType(blob.type, 'webm');
+
+export const stitchClips = async (clips: StitchClip[], options: StitchOptions): Promise<Blob> => {
+  if (clips.length === 0) throw new Error("No clips to stitch.");
+
+  const videos = await Promise.all(clips.map(c => loadVideo(c.url)));
+  if (videos.some(v => !Number.isFinite(v.duration))) throw new Error("Could not read the length of every clip.");
+  const offsets = clips.map((c, i) => Math.min(c.startSec || 0, videos[i].duration));
+  const durations = clips.map((c, i) => c.durationSec ?? videos[i].duration - offsets[i]);
+  const playing = new Set<number>();
+  // The first failed play() ends the stitch; an AbortError only means we paused the clip before it started
+  let playError: unknown = null;
+  const play = (video: HTMLVideoElement) => video.play().catch(error => {
+    if (error?.name !== 'AbortError') playError = playError || error;
+  });
+  // Clips shorter than their slot go round again from their start offset (video.loop would restart at 0)
+  videos.forEach((video, i) => {
+    if (durations[i] <= video.duration - offsets[i]) return;
+    video.onended = () => {
+      if (!playing.has(i)) return;
+      video.currentTime = offsets[i];
+      play(video);
+    };
+  });
+
+  // Crossfades overlap neighbouring clips; fades to black sit inside each clip
+  const transitionSec = options.transition === 'cut' ? 0 : Math.min(options.transitionSec, ...durations.map(d => d / 2));
+  const overlap = options.transition === 'crossfade' ? transitionSec : 0;
+  const starts: number[] = [];
+  durations.reduce((t, d, i) => { starts[i] = t; return t + d - overlap; }, 0);
+  const total = starts[starts.length - 1] + durations[durations.length - 1];
+
+  const canvas = document.createElement('canvas');
+  canvas.width = videos[0].videoWidth;
+  canvas.height = videos[0].videoHeight;
+  const ctx = canvas.getContext('2d')!;
+
+  const stream = canvas.captureStream(options.fps || 30);
+  const recorder = new MediaRecorder(stream, { mimeType: pickMimeType() || undefined });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+  const finished = new Promise<Blob>(resolve => {
+    recorder.onstop = () => resolve(new Blob(chunks, { type: recorder.mimeType || 'video/webm' }));
+  });
+
+  recorder.start();
+  const startedAt = performance.now();
+  const frameMs = 1000 / (options.fps || 30);
+
+  let stopTicker = () => {};
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const frame = () => {
+        if (playError) {
+          stopTicker();
+          return reject(playError);
+        }
+        const t = (performance.now() - startedAt) / 1000;
+        ctx.fillStyle = '#000';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+        videos.forEach((video, i) => {
+          const local = t - starts[i];
+          const active = local >= 0 && local < durations[i];
+          if (active && !playing.has(i)) {
+            video.currentTime = offsets[i];
+            play(video);
+            playing.add(i);
+          } else if (!active && playing.has(i)) {
+            video.pause();
+            playing.delete(i);
+          }
+          if (!active) return;
+
+          let alpha = 1;
+          if (options.transition === 'crossfade' && i > 0 && local < transitionSec) {
+            alpha = local / transitionSec;
+          } else if (options.transition === 'fade_black' && transitionSec > 0) {
+            const half = transitionSec / 2;
+            if (i > 0 && local < half) alpha = local / half;
+            if (i < videos.length - 1 && durations[i] - local < half) alpha = (durations[i] - local) / half;
+          }
+          drawContained(ctx, video, alpha);
+        });
+
+        options.onProgress?.(Math.min(t / total, 1));
+        if (t >= total) {
+          stopTicker();
+          resolve();
+        }
+      };
+      frame();
+      stopTicker = startFrameTicker(frameMs, frame);
+    });
+  } finally {
+    stopTicker();
+    videos.forEach(v => v.pause());
+    recorder.stop();
+  }
+  return finished;
+};
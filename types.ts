@@ -6,6 +6,8 @@ export enum AppMode {
   EDIT_IMAGE = 'EDIT_IMAGE',
   ANALYZE = 'ANALYZE',
   TRAIN_MODEL = 'TRAIN_MODEL',
+  LIBRARY = 'LIBRARY',
+  SETTINGS = 'SETTINGS',
 }
 
 export enum ImageAspectRatio {
@@ -21,21 +23,153 @@ export enum VideoResolution {
   FHD = '1080p',
 }
 
+export type ImageSize = '1K' | '2K' | '4K';
+
+// Each of these can be routed to a different model in Settings
+export type ModelCapability = 'image' | 'imageHighQuality' | 'video' | 'videoReference' | 'analysis' | 'text';
+
+export interface AppSettings {
+  models: Partial<Record<ModelCapability, string>>; // Unset or unknown ids fall back to the provider's default
+  imageSize: ImageSize; // Used for high-quality renders and remasters
+  imageAspectRatio: ImageAspectRatio;
+  videoAspectRatio: '16:9' | '9:16';
+  videoResolution: VideoResolution;
+  maxRetries: number;
+  maxBackoffMs: number;
+}
+
 export interface GeneratedMedia {
   id: string;
   type: 'image' | 'video';
   url: string;
   prompt: string;
   timestamp: number;
+  seed?: number; // Seed the generation ran with, for reproducing it
+  favorite?: boolean;
+}
+
+// Which tool produced a media library item
+export type MediaSource = 'image_generator' | 'video_generator' | 'storyboard';
+
+export interface MediaLibraryItem {
+  id: string;
+  type: 'image' | 'video';
+  blob: Blob;
+  prompt: string;
+  source: MediaSource;
+  modelId?: string;
+  modelName?: string;
+  timestamp: number;
+  seed?: number;
+  favorite?: boolean;
+}
+
+export type PresetTarget = 'image' | 'video' | 'any';
+
+export interface PromptPreset {
+  id: string;
+  name: string;
+  template: string; // Style snippet; {{name}} marks a variable, {{prompt}} places the user's prompt
+  negative?: string; // What the result should avoid
+  target: PresetTarget;
+  defaults?: {
+    aspectRatio?: string;
+    highQuality?: boolean;
+    resolution?: VideoResolution;
+  };
+  lastModified: number;
+}
+
+// A preset chosen in a generator, with the values typed for its variables
+export interface PresetSelection {
+  presetId: string;
+  values: Record<string, string>;
+}
+
+export type JobStatus = 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+// A long-running generation tracked by the job manager so it survives mode switches and reloads
+export interface GenerationJob {
+  id: string;
+  kind: 'video'; // Only Veo renders are long-running today
+  operationName: string; // Server-side handle used to resume polling
+  title: string;
+  source: MediaSource; // Which tool the result is filed under in the library
+  modelId?: string;
+  modelName?: string;
+  status: JobStatus;
+  createdAt: number;
+  finishedAt?: number;
+  error?: string;
+  mediaId?: string; // Library item created for a result nobody was waiting for
+}
+
+// One clip in a chained video sequence
+// What a shot was generated with, after interpolation and reference-image locks were applied
+export interface ShotSettings {
+  resolution: VideoResolution;
+  aspectRatio: string;
+  referenceImages?: string[];
+  startImage?: string;
+  endImage?: string;
+}
+
+export interface VideoShot {
+  id: string;
+  url: string;
+  prompt: string;
+  uri?: string; // Server-side copy, needed for native extension; expires after a couple of days
+  startSec?: number; // Native extensions repeat their source clip, so playback starts after it
+  settings?: ShotSettings; // Missing for shots started from a history item
+  isLoading?: boolean;
+}
+
+export type ScenePosition = 'auto' | 'left' | 'center' | 'right' | 'foreground' | 'background';
+
+// One cast member placed in a generated image
+export interface SceneCharacter {
+  modelId: string;
+  position: ScenePosition;
+  action: string;
+}
+
+// An expanded prompt proposed by the enhancer
+export interface PromptSuggestion {
+  title: string;
+  prompt: string;
+}
+
+export type EditMode = 'edit' | 'remaster';
+
+export interface EditStep {
+  id: string;
+  parentId: string | null; // null for the uploaded original
+  imageUrl: string;
+  prompt: string;
+  mode: EditMode | 'original' | 'adjust'; // 'adjust' = local canvas tools, no API call
+  timestamp: number;
 }
 
 export interface StoryboardPanel {
   id: string;
   description: string;
-  imageUrl?: string;
+  imageUrl?: string; // The currently selected version
+  imageHistory?: string[]; // Every image generated for this panel, oldest first
+  characterIds?: string[]; // Cast members who appear in this panel
+  notes?: string; // Director's notes, shown on exported sheets
   isLoading: boolean;
 }
 
+export interface StoryboardProject {
+  id: string;
+  name: string;
+  storyPrompt: string;
+  castIds?: string[]; // CustomModel ids cast in this storyboard
+  preset?: PresetSelection; // Style preset applied to every panel image
+  panels: StoryboardPanel[]; // Array order is the panel order
+  lastModified: number;
+}
+
 export interface TrainingExample {
   id: string;
   input: string;
@@ -59,4 +193,12 @@ export interface ChatMessage {
   role: 'user' | 'model';
   text: string;
   attachmentUrl?: string;
-}
\ No newline at end of file
+}
+
+export interface ChatThread {
+  id: string;
+  modelId: string;
+  title: string;
+  messages: ChatMessage[];
+  lastModified: number;
+}